@@ -1,447 +1,91 @@
 
-import React, { useState, useCallback, useEffect } from 'react';
-import { getDrivingInfo } from './services/geminiService';
-import type { DrivingInfo } from './types';
-import FileUpload from './components/ui/file-upload';
+import React, { useEffect, useState } from 'react';
+import { parseDeepLink, pushDeepLink } from './services/deepLink';
+import { getActiveProvider, listProviders, setActiveProvider } from './services/routingService';
+import SingleCalculatorView from './components/single-calculator-view';
+import BulkCalculatorView from './components/bulk-calculator-view';
+import MultiStopView from './components/multi-stop-view';
+import MatrixView from './components/matrix-view';
+import ServiceAreaView from './components/service-area-view';
+import RouteCachePanel from './components/route-cache-panel';
+import HistoryPanel from './components/history-panel';
+import RateCardPanel from './components/rate-card-panel';
+import UsagePanel from './components/usage-panel';
+import type { BulkRequest, SingleRequest } from './types';
 
 
-// --- SHARED COMPONENTS ---
-
-const LoadingSpinner: React.FC = () => (
-    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-    </svg>
-);
-
-// --- SINGLE CALCULATOR VIEW ---
-
-const SingleCalculatorView: React.FC = () => {
-    const [originPinCode, setOriginPinCode] = useState('');
-    const [destinationCity, setDestinationCity] = useState('');
-    const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
-    const [destinationCityError, setDestinationCityError] = useState<string | null>(null);
-    const [result, setResult] = useState<DrivingInfo | null>(null);
-    const [directionsUrl, setDirectionsUrl] = useState<string | null>(null);
-
-    const validateDestinationCity = (value: string): string | null => {
-        const trimmedValue = value.trim();
-        if (value.length > 100) {
-            return 'City name cannot exceed 100 characters.';
-        }
-        if (trimmedValue.length > 0 && !/[a-zA-Z0-9]/.test(trimmedValue)) {
-            return 'City name must contain letters or numbers.';
-        }
-        return null;
-    };
-
-    const handleCalculate = useCallback(async (e: React.FormEvent) => {
-        e.preventDefault();
-        
-        // Run final validation on submit
-        const finalDestError = validateDestinationCity(destinationCity);
-        if (finalDestError) {
-            setDestinationCityError(finalDestError);
-            return;
-        }
+// --- MAIN APP COMPONENT ---
 
-        setIsLoading(true);
-        setError(null);
-        setResult(null);
-        setDirectionsUrl(null);
+type Mode = 'single' | 'bulk' | 'route' | 'matrix' | 'area';
 
-        if (!/^\d{6}$/.test(originPinCode)) {
-            setError('Please enter a valid 6-digit pin code.');
-            setIsLoading(false);
-            return;
-        }
+const MODES: { id: Mode; label: string }[] = [
+    { id: 'single', label: 'Single Calculation' },
+    { id: 'bulk', label: 'Bulk Calculation' },
+    { id: 'route', label: 'Multi-Stop Route' },
+    { id: 'matrix', label: 'Distance Matrix' },
+    { id: 'area', label: 'Service Area' },
+];
 
-        if (!destinationCity.trim()) {
-            setError('Please enter a destination city or town.');
-            setIsLoading(false);
-            return;
-        }
+const isMode = (value: string | null): value is Mode => MODES.some(({ id }) => id === value);
 
-        try {
-            const drivingInfo = await getDrivingInfo(originPinCode, destinationCity);
-            
-            setResult(drivingInfo);
+type Panel = 'cache' | 'history' | 'rates' | 'usage';
 
-            const url = `https://www.google.com/maps/dir/?api=1&origin=${encodeURIComponent(originPinCode + ', India')}&destination=${encodeURIComponent(destinationCity + ', India')}`;
-            setDirectionsUrl(url);
+const PANELS: { id: Panel; label: string }[] = [
+    { id: 'cache', label: 'Route cache' },
+    { id: 'history', label: 'History' },
+    { id: 'rates', label: 'Rate cards' },
+    { id: 'usage', label: 'Usage' },
+];
 
-        } catch (err) {
-            if (err instanceof Error) {
-                const message = err.message.toLowerCase();
-                 if (message.includes('api key')) {
-                    setError("There is an issue with the API configuration. Please try again later.");
-                } else {
-                    setError(err.message);
-                }
-            } else {
-                setError('An unexpected error occurred. Please try again.');
-            }
-            console.error(err);
-        } finally {
-            setIsLoading(false);
-        }
-    }, [originPinCode, destinationCity]);
-    
-    const handleClear = useCallback(() => {
-        setOriginPinCode('');
-        setDestinationCity('');
-        setError(null);
-        setResult(null);
-        setDirectionsUrl(null);
-        setDestinationCityError(null);
+const App: React.FC = () => {
+    // A shared link (see services/deepLink.ts) opens its tab and fills in its calculation.
+    const [initialLink] = useState(() => parseDeepLink(window.location.search));
+    const [mode, setMode] = useState<Mode>(isMode(initialLink.mode) ? initialLink.mode : 'single');
+    const [providerId, setProviderId] = useState(() => getActiveProvider().id);
+    const [panel, setPanel] = useState<Panel | null>(null);
+    const [singleRequest, setSingleRequest] = useState<SingleRequest | null>(initialLink.request);
+    const [autoRun, setAutoRun] = useState(initialLink.autoRun);
+    const [bulkRequest, setBulkRequest] = useState<BulkRequest | null>(null);
+
+    // Back and forward restore the tab and calculation of that history entry.
+    useEffect(() => {
+        const handlePopState = () => {
+            const link = parseDeepLink(window.location.search);
+            setMode(isMode(link.mode) ? link.mode : 'single');
+            setSingleRequest(link.request);
+            setAutoRun(link.autoRun);
+            setBulkRequest(null);
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
     }, []);
 
-    const handleDestinationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const newValue = e.target.value;
-        setDestinationCity(newValue);
-        setDestinationCityError(validateDestinationCity(newValue));
+    const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+        setActiveProvider(e.target.value);
+        setProviderId(e.target.value);
     };
 
-    return (
-        <>
-            <form onSubmit={handleCalculate} className="space-y-4">
-                <div>
-                    <label htmlFor="pincode" className="block text-sm font-medium text-gray-300 mb-1">
-                        Origin Pin Code (e.g., 400001)
-                    </label>
-                    <input
-                        id="pincode"
-                        type="text"
-                        value={originPinCode}
-                        onChange={(e) => setOriginPinCode(e.target.value)}
-                        placeholder="Enter 6-digit pin code"
-                        maxLength={6}
-                        className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition"
-                        disabled={isLoading}
-                    />
-                </div>
-
-                <div>
-                    <label htmlFor="city" className="block text-sm font-medium text-gray-300 mb-1">
-                        Destination City/Town (e.g., Pune)
-                    </label>
-                    <input
-                        id="city"
-                        type="text"
-                        value={destinationCity}
-                        onChange={handleDestinationChange}
-                        placeholder="Enter city or town name"
-                        className={`w-full px-4 py-2 bg-gray-700 border rounded-md focus:ring-2 outline-none transition ${destinationCityError ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-cyan-500 focus:border-cyan-500'}`}
-                        disabled={isLoading}
-                        aria-invalid={!!destinationCityError}
-                        aria-describedby="city-error"
-                    />
-                    {destinationCityError && (
-                        <p id="city-error" className="text-red-400 text-sm mt-1">
-                            {destinationCityError}
-                        </p>
-                    )}
-                </div>
-                
-                <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-2 sm:space-y-0 pt-2">
-                    <button
-                        type="submit"
-                        disabled={isLoading || !!destinationCityError}
-                        className="flex-grow w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        {isLoading ? <LoadingSpinner /> : null}
-                        {isLoading ? 'Calculating...' : 'Calculate Distance'}
-                    </button>
-                    <button
-                        type="button"
-                        onClick={handleClear}
-                        disabled={isLoading}
-                        className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-                    >
-                        Clear
-                    </button>
-                </div>
-            </form>
-
-            <div className="pt-4 min-h-[6rem]">
-                {error && (
-                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
-                        <p>{error}</p>
-                    </div>
-                )}
-                {result && !error && (
-                    <div className="bg-gray-900/50 border border-gray-700 p-4 rounded-lg">
-                        {directionsUrl && (
-                            <div className="mb-4">
-                                <a
-                                    href={directionsUrl}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="flex items-center w-full p-3 bg-gray-700/50 border border-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
-                                    aria-label={`Open map directions from ${originPinCode} to ${destinationCity} in a new tab`}
-                                >
-                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
-                                    <path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                                    </svg>
-                                    <span className="text-white">Map from {originPinCode} to {destinationCity}</span>
-                                </a>
-                            </div>
-                        )}
-                        <div className="text-left text-gray-300">
-                            <p className="text-xl font-bold text-green-400">{result.travelTime}
-                            <span className="text-gray-400 font-normal"> ({result.distance.toLocaleString('en-IN')} km)</span></p>
-                            <p className="text-sm mt-1">{result.routeSummary}</p>
-                        </div>
-                    </div>
-                )}
-            </div>
-        </>
-    );
-};
-
-
-// --- BULK CALCULATOR VIEW ---
-
-interface BulkResultRow extends DrivingInfo {
-    "Origin Pin Code": string;
-    "Destination City": string;
-}
-
-interface BulkError {
-    row: number;
-    origin: string;
-    destination: string;
-    message: string;
-}
-
-/**
- * Basic CSV line parser that respects double quotes for field content.
- * Does NOT handle escaped quotes within a field ("field with ""quote""").
- */
-const parseCsvLine = (line: string): string[] => {
-    const matches = line.match(/(".*?"|[^",\r\n]+)(?=\s*,|\s*$)/g) || [];
-    return matches.map(field => field.replace(/^"|"$/g, '').trim());
-};
-
-
-const BulkCalculatorView: React.FC = () => {
-    const [file, setFile] = useState<File | null>(null);
-    const [isProcessing, setIsProcessing] = useState(false);
-    const [progress, setProgress] = useState({ processed: 0, total: 0 });
-    const [results, setResults] = useState<BulkResultRow[]>([]);
-    const [errors, setErrors] = useState<BulkError[]>([]);
-    const [generalError, setGeneralError] = useState<string | null>(null);
-
-    const sampleCsvUrl = "data:text/csv;charset=utf-8,Origin Pin Code,Destination City%0A400001,Pune%0A110001,Jaipur";
-
-    const handleFileSelect = (uploadedFile: File) => {
-        if (uploadedFile.type !== 'text/csv' && !uploadedFile.name.endsWith('.csv')) {
-            setGeneralError('Invalid file type. Please upload a .csv file.');
-            setFile(null);
-            return;
-        }
-        setFile(uploadedFile);
-        setGeneralError(null);
-        setResults([]);
-        setErrors([]);
+    // Switching tabs drops a pending re-run so returning to a view doesn't repeat it.
+    const handleModeChange = (id: Mode) => {
+        setMode(id);
+        setSingleRequest(null);
+        setBulkRequest(null);
+        pushDeepLink(id);
     };
 
-    const handleBulkCalculate = async () => {
-        if (!file) return;
-
-        setIsProcessing(true);
-        setResults([]);
-        setErrors([]);
-        setGeneralError(null);
-
-        const reader = new FileReader();
-        reader.onload = async (e) => {
-            try {
-                const text = e.target?.result as string;
-                const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
-                if (lines.length < 2) {
-                    throw new Error("CSV file is empty or contains only a header.");
-                }
-
-                const header = parseCsvLine(lines[0]);
-                const originIndex = header.findIndex(h => h.toLowerCase() === 'origin pin code');
-                const destIndex = header.findIndex(h => h.toLowerCase() === 'destination city');
-
-                if (originIndex === -1 || destIndex === -1) {
-                    throw new Error("Invalid CSV headers. Please use 'Origin Pin Code' and 'Destination City'.");
-                }
-                
-                const dataRows = lines.slice(1);
-                setProgress({ processed: 0, total: dataRows.length });
-
-                const newResults: BulkResultRow[] = [];
-                const newErrors: BulkError[] = [];
-
-                for (let i = 0; i < dataRows.length; i++) {
-                    const row = parseCsvLine(dataRows[i]);
-                    const origin = row[originIndex]?.trim();
-                    const destination = row[destIndex]?.trim();
-                    const rowIndex = i + 2; // CSV rows are 1-indexed, +1 for header
-
-                    if (!origin || !destination) {
-                        newErrors.push({ row: rowIndex, origin: origin || '', destination: destination || '', message: 'Missing origin or destination.' });
-                        setProgress(p => ({ ...p, processed: p.processed + 1 }));
-                        continue;
-                    }
-
-                    try {
-                        const drivingInfo = await getDrivingInfo(origin, destination);
-                        newResults.push({
-                            "Origin Pin Code": origin,
-                            "Destination City": destination,
-                            ...drivingInfo
-                        });
-                    } catch (err) {
-                        if (err instanceof Error) {
-                            const message = err.message.toLowerCase();
-                            if (message.includes('api key')) {
-                                throw new Error("Processing stopped due to an API configuration issue.");
-                            }
-                             newErrors.push({ row: rowIndex, origin, destination, message: err.message });
-                        } else {
-                            newErrors.push({ row: rowIndex, origin, destination, message: 'Unknown error' });
-                        }
-                    }
-                    setProgress(p => ({ ...p, processed: p.processed + 1 }));
-                }
-
-                setResults(newResults);
-                setErrors(newErrors);
-
-            } catch (err) {
-                 if (err instanceof Error) {
-                    setGeneralError(err.message);
-                } else {
-                    setGeneralError('An unexpected error occurred while processing the file.');
-                }
-            } finally {
-                setIsProcessing(false);
-            }
-        };
-        reader.readAsText(file);
+    // Each re-run is a new object so the view reacts even to the same request twice.
+    const handleRerunSingle = (request: SingleRequest) => {
+        setMode('single');
+        setSingleRequest({ ...request });
+        setAutoRun(true);
     };
 
-    const handleDownload = () => {
-        const headers = ['Origin Pin Code', 'Destination City', 'Distance (km)', 'Travel Time', 'Route Summary'];
-        const csvRows = [headers.join(',')];
-
-        results.forEach(row => {
-            const values = [
-                `"${row['Origin Pin Code']}"`,
-                `"${row['Destination City']}"`,
-                row.distance,
-                `"${row.travelTime}"`,
-                `"${row.routeSummary.replace(/"/g, '""')}"` // Escape double quotes
-            ];
-            csvRows.push(values.join(','));
-        });
-
-        const blob = new Blob([csvRows.join('\n')], { type: 'text/csv;charset=utf-8;' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.setAttribute('href', url);
-        link.setAttribute('download', 'distance_results.csv');
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+    const handleRerunBulk = ({ file, sheet, mapping, routeOptions }: BulkRequest) => {
+        setMode('bulk');
+        setBulkRequest({ file, sheet, mapping, routeOptions });
+        pushDeepLink('bulk');
     };
     
-    const handleClear = () => {
-        setFile(null);
-        setResults([]);
-        setErrors([]);
-        setGeneralError(null);
-        setIsProcessing(false);
-        setProgress({ processed: 0, total: 0 });
-    };
-
-    return (
-        <div className="space-y-4">
-             <div className="text-center text-sm text-gray-400 p-4 bg-gray-900/50 rounded-lg">
-                <p>Upload a CSV file with columns: <code className="text-cyan-400 font-mono">Origin Pin Code</code> and <code className="text-cyan-400 font-mono">Destination City</code>.</p>
-                <a href={sampleCsvUrl} download="sample_template.csv" className="text-cyan-500 hover:underline mt-1 inline-block">
-                    Download Template
-                </a>
-            </div>
-
-            <FileUpload 
-                file={file}
-                onFileSelect={handleFileSelect}
-                disabled={isProcessing}
-            />
-            
-            <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-2 sm:space-y-0 pt-2">
-                <button
-                    onClick={handleBulkCalculate}
-                    disabled={!file || isProcessing}
-                    className="flex-grow w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                    {isProcessing ? <LoadingSpinner /> : null}
-                    {isProcessing ? `Processing... (${progress.processed}/${progress.total})` : 'Calculate Distances'}
-                </button>
-                 <button
-                    type="button"
-                    onClick={handleClear}
-                    disabled={isProcessing}
-                    className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                    Clear
-                </button>
-            </div>
-
-            {isProcessing && (
-                <div className="w-full bg-gray-700 rounded-full h-2.5">
-                    <div className="bg-cyan-600 h-2.5 rounded-full" style={{ width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%` }}></div>
-                </div>
-            )}
-
-            <div className="pt-4 min-h-[6rem]">
-                 {generalError && (
-                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
-                        <p>{generalError}</p>
-                    </div>
-                )}
-                {results.length > 0 && !isProcessing && (
-                     <div className="bg-gray-900/50 border border-gray-700 p-4 rounded-lg text-center">
-                        <p className="text-green-400 font-bold">Processing complete!</p>
-                        <p className="text-gray-300">{results.length} rows calculated successfully.</p>
-                        <button onClick={handleDownload} className="mt-4 bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-md transition">
-                            Download Results
-                        </button>
-                    </div>
-                )}
-                {errors.length > 0 && !isProcessing && (
-                    <div className="mt-4">
-                        <h3 className="text-red-400 font-semibold mb-2 text-center">Failed Rows ({errors.length})</h3>
-                        <div className="max-h-40 overflow-y-auto bg-gray-900/50 p-3 rounded-lg text-sm space-y-2">
-                           {errors.map((err, index) => (
-                               <div key={index} className="p-2 bg-red-900/30 rounded">
-                                   <p className="font-mono text-red-300">Row {err.row}: {err.origin} to {err.destination}</p>
-                                   <p className="text-red-400 ml-2"> &rarr; {err.message}</p>
-                               </div>
-                           ))}
-                        </div>
-                    </div>
-                )}
-            </div>
-        </div>
-    );
-};
-
-
-// --- MAIN APP COMPONENT ---
-
-type Mode = 'single' | 'bulk';
-
-const App: React.FC = () => {
-    const [mode, setMode] = useState<Mode>('single');
-    
     return (
         <div className="bg-gray-100 min-h-screen flex items-center justify-center p-4 font-sans">
             <div className="relative w-full max-w-xs sm:max-w-sm md:max-w-lg bg-gray-800 text-white p-6 sm:p-8 rounded-xl shadow-2xl space-y-6">
@@ -452,21 +96,62 @@ const App: React.FC = () => {
 
                 {/* Tab Switcher */}
                 <div className="flex bg-gray-900/50 p-1 rounded-lg">
-                    <button 
-                        onClick={() => setMode('single')}
-                        className={`w-full py-2 rounded-md text-sm font-medium transition-colors ${mode === 'single' ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
-                    >
-                        Single Calculation
-                    </button>
-                    <button 
-                        onClick={() => setMode('bulk')}
-                        className={`w-full py-2 rounded-md text-sm font-medium transition-colors ${mode === 'bulk' ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                    {MODES.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            onClick={() => handleModeChange(id)}
+                            className={`w-full py-2 rounded-md text-sm font-medium transition-colors ${mode === id ? 'bg-cyan-600 text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex items-center justify-end text-sm text-gray-400">
+                    <label htmlFor="provider" className="mr-2">Routing provider</label>
+                    <select
+                        id="provider"
+                        value={providerId}
+                        onChange={handleProviderChange}
+                        className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
                     >
-                        Bulk Calculation
-                    </button>
+                        {listProviders().map(provider => (
+                            <option key={provider.id} value={provider.id} disabled={!provider.isAvailable()}>
+                                {provider.name}{provider.isAvailable() ? '' : ' (not configured)'}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+
+                {mode === 'single' && (
+                    <SingleCalculatorView
+                        request={singleRequest}
+                        autoRun={autoRun}
+                        onCalculated={request => pushDeepLink('single', request)}
+                    />
+                )}
+                {mode === 'bulk' && <BulkCalculatorView request={bulkRequest} />}
+                {mode === 'route' && <MultiStopView />}
+                {mode === 'matrix' && <MatrixView />}
+                {mode === 'area' && <ServiceAreaView />}
+
+                <div className="border-t border-gray-700 pt-4 flex justify-center space-x-4 text-sm">
+                    {PANELS.map(({ id, label }) => (
+                        <button
+                            key={id}
+                            onClick={() => setPanel(current => current === id ? null : id)}
+                            className={`hover:underline ${panel === id ? 'text-cyan-400' : 'text-gray-400'}`}
+                            aria-expanded={panel === id}
+                        >
+                            {label}
+                        </button>
+                    ))}
                 </div>
 
-                {mode === 'single' ? <SingleCalculatorView /> : <BulkCalculatorView />}
+                {panel === 'cache' && <RouteCachePanel />}
+                {panel === 'history' && <HistoryPanel onRerunSingle={handleRerunSingle} onRerunBulk={handleRerunBulk} />}
+                {panel === 'rates' && <RateCardPanel />}
+                {panel === 'usage' && <UsagePanel />}
             </div>
         </div>
     );
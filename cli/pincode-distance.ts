@@ -0,0 +1,316 @@
+#!/usr/bin/env -S npx --no-install tsx
+import { access, readFile, rename, writeFile } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { parseArgs } from 'node:util';
+import type { BulkError, BulkResultRow, BulkTask, ColumnMapping, RouteOptions } from '../types';
+import { DEFAULT_BULK_SETTINGS, buildBulkTasks, guessColumnMapping, processBulkTasks } from '../services/bulkProcessor';
+import { buildResultTable, readResultTable } from '../services/bulkExport';
+import { ConfigurationError } from '../services/errors';
+import { geminiProvider } from '../services/geminiService';
+import { JobController } from '../services/jobRunner';
+import { parseRouteOptions } from '../services/routeOptions';
+import { listProviders, registerProvider, setActiveProvider } from '../services/routingService';
+import { FORMATS, detectFormat, readTable, writeTable } from '../services/tableFormats';
+import { NO_USAGE, addUsage, formatTokens, formatUsd, totalTokens, usageCost } from '../services/usage';
+import type { TableData, TableFormat } from '../services/tableFormats';
+
+/**
+ * Command-line bulk runner: the web app's bulk mode without a browser, for
+ * scheduled jobs. Same input formats, routing pipeline and export columns.
+ * It runs from a checkout through tsx (`npm run cli`) and is not installed
+ * as a command.
+ */
+
+const USAGE = `Usage: npm run cli -- bulk <input> -o <output> [options]
+
+Looks up the driving distance for every row of <input> (CSV, Excel or JSON)
+and writes the results in the bulk download format to <output>.
+
+Options:
+  -o, --output <file>        Output file; its extension picks the format
+      --format <format>      csv, xlsx, json or ndjson, overriding the extension
+      --sheet <name>         Worksheet of an Excel input (default: the first)
+      --origin <column>      Origin column, by header or 1-based number
+      --destination <column> Destination column, by header or 1-based number
+      --concurrency <n>      Parallel requests (default ${DEFAULT_BULK_SETTINGS.concurrency})
+      --rpm <n>              Requests per minute (default ${DEFAULT_BULK_SETTINGS.requestsPerMinute})
+      --retries <n>          Retries for rate-limited or transient failures (default ${DEFAULT_BULK_SETTINGS.maxRetries})
+      --vehicle <type>       two-wheeler, car, lcv or truck, for rows without a Vehicle column
+      --avoid-tolls          Avoid tolls, for rows without an Avoid Tolls column
+      --avoid-highways       Avoid highways, for rows without an Avoid Highways column
+      --depart <time>        Departure time, for rows without a Departure Time column
+      --provider <id>        gemini (default, needs GEMINI_API_KEY), api, mock or estimate
+      --api-url <url>        Routing server for --provider api, e.g. http://localhost:8787
+      --resume               Keep the finished rows of an existing <output> and look up the rest
+      --budget <usd>         Stop once this run's API spend reaches this many US dollars
+                             (default: PINCODE_DISTANCE_BUDGET, else no limit)
+  -h, --help                 Show this help
+
+The web app's usage log and daily budget do not cover the command line; use
+--budget to cap what each run may spend.
+
+Exit status: 0 when every row succeeded, 1 when some rows failed or were not
+processed (including after --budget stopped the run), 2 on a usage or
+configuration error.`;
+
+const EXIT_OK = 0;
+const EXIT_ROWS_FAILED = 1;
+const EXIT_ERROR = 2;
+
+/** How often partial results are written while the job runs. */
+const CHECKPOINT_INTERVAL_MS = 10_000;
+
+/** A problem with the command line or setup, reported without a stack trace. */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const positiveInteger = (value: string | undefined, name: string, fallback: number, min = 1): number => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min) {
+    throw new UsageError(`--${name} must be a whole number of at least ${min}.`);
+  }
+  return n;
+};
+
+const positiveAmount = (value: string | undefined, name: string): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new UsageError(`${name} must be an amount greater than zero.`);
+  }
+  return n;
+};
+
+/** Index of a column given by header name (case-insensitive) or 1-based number. */
+const findColumn = (headers: string[], spec: string, name: string): number => {
+  const byName = headers.findIndex(h => h.trim().toLowerCase() === spec.trim().toLowerCase());
+  if (byName !== -1) return byName;
+  const n = Number(spec);
+  if (Number.isInteger(n) && n >= 1 && n <= headers.length) return n - 1;
+  throw new UsageError(`--${name}: no column "${spec}". The columns are: ${headers.join(', ')}.`);
+};
+
+const readInput = async (path: string, sheet?: string): Promise<TableData> =>
+  readTable(new File([await readFile(path)], basename(path)), { sheet });
+
+const exists = (path: string): Promise<boolean> => access(path).then(() => true, () => false);
+
+/** Writes to a temporary file first, so an interrupted write never truncates the output. */
+const writeOutput = async (path: string, table: { headers: string[]; rows: unknown[][] }, format: TableFormat) => {
+  const bytes = new Uint8Array(await writeTable(table, format).arrayBuffer());
+  await writeFile(`${path}.tmp`, bytes);
+  await rename(`${path}.tmp`, path);
+};
+
+/** Progress on stderr: one updating line on a terminal, else a line every 5%. */
+const progressReporter = (total: number) => {
+  const step = Math.max(1, Math.floor(total / 20));
+  return (done: number, failed: number) => {
+    const line = `${done}/${total} rows done, ${failed} failed`;
+    if (process.stderr.isTTY) {
+      process.stderr.write(`\r${line}`);
+      if (done === total) process.stderr.write('\n');
+    } else if (done % step === 0 || done === total) {
+      process.stderr.write(`${line}\n`);
+    }
+  };
+};
+
+const chooseProvider = (id: string | undefined, apiUrl: string | undefined) => {
+  // The Gemini provider reads its key from API_KEY.
+  process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+  registerProvider(geminiProvider);
+
+  const providerId = id ?? geminiProvider.id;
+  const provider = listProviders().find(p => p.id === providerId);
+  if (!provider) {
+    throw new UsageError(`Unknown provider "${providerId}". Use one of: ${listProviders().map(p => p.id).join(', ')}.`);
+  }
+  if (provider.id === 'api') {
+    if (!apiUrl) throw new UsageError('--provider api needs --api-url.');
+    process.env.ROUTING_API_URL = apiUrl.replace(/\/+$/, '');
+  }
+  if (!provider.isAvailable()) {
+    throw new UsageError(`The ${provider.name} provider is not configured. Set GEMINI_API_KEY, or choose another --provider.`);
+  }
+  setActiveProvider(provider.id);
+  return provider;
+};
+
+const runBulk = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string' },
+      sheet: { type: 'string' },
+      origin: { type: 'string' },
+      destination: { type: 'string' },
+      concurrency: { type: 'string' },
+      rpm: { type: 'string' },
+      retries: { type: 'string' },
+      vehicle: { type: 'string' },
+      'avoid-tolls': { type: 'boolean' },
+      'avoid-highways': { type: 'boolean' },
+      depart: { type: 'string' },
+      provider: { type: 'string' },
+      'api-url': { type: 'string' },
+      resume: { type: 'boolean' },
+      budget: { type: 'string' },
+    },
+  });
+
+  const [input] = positionals;
+  const output = values.output;
+  if (!input || !output || positionals.length > 1) {
+    throw new UsageError('Give one input file and an --output file.');
+  }
+  const format = (values.format ?? detectFormat({ name: output })) as TableFormat | null;
+  if (!format || !(format in FORMATS)) {
+    throw new UsageError(`Cannot tell the output format of "${output}". Use --format csv, xlsx, json or ndjson.`);
+  }
+
+  const settings = {
+    concurrency: positiveInteger(values.concurrency, 'concurrency', DEFAULT_BULK_SETTINGS.concurrency),
+    requestsPerMinute: positiveInteger(values.rpm, 'rpm', DEFAULT_BULK_SETTINGS.requestsPerMinute),
+    maxRetries: positiveInteger(values.retries, 'retries', DEFAULT_BULK_SETTINGS.maxRetries, 0),
+  };
+  let defaults: RouteOptions;
+  try {
+    defaults = parseRouteOptions({
+      vehicle: values.vehicle,
+      avoidTolls: values['avoid-tolls'] ? 'yes' : undefined,
+      avoidHighways: values['avoid-highways'] ? 'yes' : undefined,
+      departureTime: values.depart,
+    });
+  } catch (err) {
+    throw new UsageError(err instanceof Error ? err.message : 'Invalid route options.');
+  }
+  const budget = values.budget !== undefined
+    ? positiveAmount(values.budget, '--budget')
+    : positiveAmount(process.env.PINCODE_DISTANCE_BUDGET, 'PINCODE_DISTANCE_BUDGET');
+  const provider = chooseProvider(values.provider, values['api-url']);
+
+  const { headers, rows } = await readInput(input, values.sheet);
+  if (headers.length < 2) {
+    throw new UsageError('The input needs at least two columns: an origin and a destination.');
+  }
+  const mapping: ColumnMapping = guessColumnMapping(headers);
+  if (values.origin) mapping.origin = findColumn(headers, values.origin, 'origin');
+  if (values.destination) mapping.destination = findColumn(headers, values.destination, 'destination');
+  if (mapping.origin === mapping.destination) {
+    throw new UsageError('The origin and destination columns must be different; use --origin and --destination.');
+  }
+  const tasks: BulkTask[] = buildBulkTasks(rows, mapping, defaults);
+
+  let results: BulkResultRow[] = [];
+  const errors: BulkError[] = [];
+  if (values.resume && await exists(output)) {
+    results = readResultTable(headers, tasks, await readInput(output));
+  }
+  const finished = new Set(results.map(r => r.row));
+  const pending = tasks.filter(task => !finished.has(task.row));
+
+  process.stderr.write(
+    `${tasks.length} rows, ${pending.length} to look up with ${provider.name}`
+    + ` (origin: ${headers[mapping.origin]}, destination: ${headers[mapping.destination]}).\n`,
+  );
+
+  const save = () => writeOutput(output, buildResultTable(headers, tasks, results, errors), format);
+  const report = progressReporter(pending.length);
+  const controller = new JobController();
+  const interrupt = () => {
+    process.stderr.write('\nStopping after the rows in progress; run again with --resume to finish.\n');
+    controller.cancel();
+  };
+  process.once('SIGINT', interrupt);
+  const checkpoint = setInterval(() => {
+    save().catch(err => process.stderr.write(`Could not write ${output}: ${err instanceof Error ? err.message : err}\n`));
+  }, CHECKPOINT_INTERVAL_MS);
+
+  let fatal: unknown = null;
+  let usage = NO_USAGE;
+  let calls = 0;
+  let budgetReached = false;
+  try {
+    await processBulkTasks(pending, settings, {
+      onResult: (result) => {
+        results.push(result);
+        if (result.usage) {
+          calls++;
+          usage = addUsage(usage, result.usage);
+          // As in the web app, rows already in flight still finish.
+          if (budget !== null && !budgetReached && usageCost(usage) >= budget) {
+            budgetReached = true;
+            controller.cancel();
+          }
+        }
+        report(results.length - finished.size + errors.length, errors.length);
+      },
+      onError: (error) => {
+        errors.push(error);
+        report(results.length - finished.size + errors.length, errors.length);
+      },
+    }, controller);
+  } catch (err) {
+    fatal = err;
+  } finally {
+    clearInterval(checkpoint);
+    process.off('SIGINT', interrupt);
+  }
+  await save();
+
+  const notProcessed = tasks.length - results.length - errors.length;
+  process.stderr.write(
+    `Wrote ${output}: ${results.length} succeeded, ${errors.length} failed`
+    + `${notProcessed > 0 ? `, ${notProcessed} not processed` : ''}.\n`,
+  );
+  if (calls > 0) {
+    process.stderr.write(`API usage: ${formatTokens(totalTokens(usage))} tokens in ${calls} calls, about ${formatUsd(usageCost(usage))}.\n`);
+  }
+  if (budgetReached) {
+    process.stderr.write(`Stopped at the budget of ${formatUsd(budget)}; run again with --resume to finish.\n`);
+  }
+  if (fatal) {
+    const message = fatal instanceof ConfigurationError
+      ? 'Processing stopped due to an API configuration issue.'
+      : fatal instanceof Error ? fatal.message : String(fatal);
+    process.stderr.write(`${message}\n`);
+    return EXIT_ERROR;
+  }
+  return errors.length > 0 || notProcessed > 0 ? EXIT_ROWS_FAILED : EXIT_OK;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...args] = argv;
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    process.stdout.write(`${USAGE}\n`);
+    return command ? EXIT_OK : EXIT_ERROR;
+  }
+  if (command !== 'bulk') {
+    throw new UsageError(`Unknown command "${command}".`);
+  }
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // No .env.local; rely on the environment.
+  }
+  return runBulk(args);
+};
+
+main(process.argv.slice(2)).then(
+  code => process.exit(code),
+  err => {
+    // parseArgs reports bad flags with a TypeError carrying an ERR_PARSE_ARGS_* code.
+    const usage = err instanceof UsageError || String((err as { code?: string })?.code).startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`pincode-distance: ${err instanceof Error ? err.message : err}\n`);
+    if (usage) process.stderr.write('Run "npm run cli -- --help" for usage.\n');
+    process.exit(EXIT_ERROR);
+  },
+);
@@ -0,0 +1,675 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { DEFAULT_BULK_SETTINGS, guessColumnMapping } from '../services/bulkProcessor';
+import { buildResultTable } from '../services/bulkExport';
+import { BulkWorkerJob, estimateLookups } from '../services/bulkWorkerClient';
+import { downloadBlob } from '../services/download';
+import { ACCEPTED_INPUT_TYPES, FORMATS, detectFormat, listSheets, readTableHeaders, writeTable } from '../services/tableFormats';
+import type { TableFormat } from '../services/tableFormats';
+import { ConfigurationError } from '../services/errors';
+import { addHistoryEntry } from '../services/history';
+import { DISTANCE_BANDS, bulkResultSegments } from '../services/mapData';
+import { calculateCost, formatRupees } from '../services/rateCards';
+import { DEFAULT_ROUTE_OPTIONS } from '../services/routeOptions';
+import { getActiveProvider } from '../services/routingService';
+import {
+    NO_USAGE_TOTAL, averageUsage, formatTokens, formatUsd, listUsage, loadBudget, totalTokens, usageCost, withinBudget,
+} from '../services/usage';
+import type { Budget, Spending } from '../services/usage';
+import { isSuspicious } from '../services/validation';
+import { createJob, deleteJob, findInterruptedJob, loadJobOutcomes, saveRowOutcomes, updateJobStatus, updateJobTotal } from '../services/jobStore';
+import type { BulkError, BulkJob, BulkRequest, BulkResultRow, BulkSettings, BulkTask, ColumnMapping, RateCard, RouteOptions, UsageTotal } from '../types';
+import BulkResultsTable from './bulk-results-table';
+import ColumnMapper from './column-mapper';
+import RouteMap from './route-map';
+import RateCardSelect from './rate-card-select';
+import RouteOptionsForm from './route-options-form';
+import FileUpload from './ui/file-upload';
+import LoadingSpinner from './ui/loading-spinner';
+
+const clamp = (value: number, min: number, max: number): number =>
+    Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : min;
+
+/** Expected provider calls and cost of running the loaded file. */
+interface CostEstimate {
+    rows: number;
+    calls: number;
+    tokens: number;
+    cost: number;
+    budget: Budget;
+}
+
+interface BulkCalculatorViewProps {
+    /** When set (e.g. a re-run from the history), loads that file and setup, ready to calculate. */
+    request?: BulkRequest | null;
+}
+
+const BulkCalculatorView: React.FC<BulkCalculatorViewProps> = ({ request }) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [sheets, setSheets] = useState<string[]>([]);
+    const [sheet, setSheet] = useState<string | undefined>(undefined);
+    const [headers, setHeaders] = useState<string[]>([]);
+    const [exportFormat, setExportFormat] = useState<TableFormat>('csv');
+    const [mapping, setMapping] = useState<ColumnMapping>({ origin: 0, destination: 1 });
+    const [routeOptions, setRouteOptions] = useState<RouteOptions>(DEFAULT_ROUTE_OPTIONS);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [isPaused, setIsPaused] = useState(false);
+    const [progress, setProgress] = useState({ processed: 0, total: 0 });
+    const [tasks, setTasks] = useState<BulkTask[]>([]);
+    const [results, setResults] = useState<BulkResultRow[]>([]);
+    const [errors, setErrors] = useState<BulkError[]>([]);
+    const [generalError, setGeneralError] = useState<string | null>(null);
+    const [settings, setSettings] = useState<BulkSettings>(DEFAULT_BULK_SETTINGS);
+    const [interruptedJob, setInterruptedJob] = useState<BulkJob | null>(null);
+    const [showMap, setShowMap] = useState(false);
+    const [rateCard, setRateCard] = useState<RateCard | null>(null);
+    const [estimate, setEstimate] = useState<CostEstimate | null>(null);
+    const [jobUsage, setJobUsage] = useState<UsageTotal>(NO_USAGE_TOTAL);
+    const controllerRef = useRef<BulkWorkerJob | null>(null);
+    const jobRef = useRef<BulkJob | null>(null);
+
+    const cacheHits = results.filter(r => r.fromCache).length;
+    const suspicious = results.filter(isSuspicious).length;
+    const totalCharge = useMemo(
+        () => (rateCard ? results.reduce((sum, result) => sum + calculateCost(result, rateCard).total, 0) : null),
+        [rateCard, results],
+    );
+    // Only worked out while the map is open; every row is looked up in the gazetteer.
+    const mapData = useMemo(() => (showMap ? bulkResultSegments(results) : null), [showMap, results]);
+
+    // The estimate is redone when the provider changes, since the cache is per provider.
+    const provider = getActiveProvider();
+
+    useEffect(() => {
+        if (!file || isProcessing || !provider.usesTokens || mapping.origin === mapping.destination) {
+            setEstimate(null);
+            return;
+        }
+        // The file is parsed in a worker; a newer file or setting aborts it.
+        const abort = new AbortController();
+        const estimateCost = async () => {
+            const [{ rows, calls }, log, budget] = await Promise.all([
+                estimateLookups({ file, sheet, mapping, routeOptions }, provider.id, abort.signal),
+                listUsage(),
+                loadBudget(),
+            ]);
+            const perCall = averageUsage(log);
+            if (!abort.signal.aborted) {
+                setEstimate({ rows, calls, tokens: totalTokens(perCall) * calls, cost: usageCost(perCall) * calls, budget });
+            }
+        };
+        estimateCost().catch(err => {
+            console.error('Could not estimate the cost:', err);
+            if (!abort.signal.aborted) setEstimate(null);
+        });
+        return () => abort.abort();
+    }, [file, sheet, mapping, routeOptions, isProcessing, provider.id]);
+
+    const sampleCsvUrl = "data:text/csv;charset=utf-8,Origin Pin Code,Destination City%0A400001,Pune%0A110001,Jaipur";
+
+    useEffect(() => {
+        findInterruptedJob()
+            .then(setInterruptedJob)
+            .catch(err => console.error('Could not check for interrupted jobs:', err));
+    }, []);
+
+    const loadHeaders = async (uploadedFile: File, sheetName?: string) => {
+        const fileHeaders = await readTableHeaders(uploadedFile, { sheet: sheetName });
+        if (fileHeaders.length < 2) {
+            throw new Error('The file needs at least two columns: an origin and a destination.');
+        }
+        setHeaders(fileHeaders);
+        setMapping(guessColumnMapping(fileHeaders));
+    };
+
+    const handleFileSelect = async (uploadedFile: File) => {
+        const format = detectFormat(uploadedFile);
+        if (!format) {
+            setGeneralError('Invalid file type. Please upload a CSV, Excel or JSON file.');
+            setFile(null);
+            setHeaders([]);
+            return;
+        }
+        setGeneralError(null);
+        setResults([]);
+        setErrors([]);
+
+        try {
+            const sheetNames = format === 'xlsx' ? await listSheets(uploadedFile) : [];
+            await loadHeaders(uploadedFile, sheetNames[0]);
+            setFile(uploadedFile);
+            setSheets(sheetNames);
+            setSheet(sheetNames[0]);
+            setExportFormat(format);
+        } catch (err) {
+            setGeneralError(err instanceof Error ? err.message : 'Could not read the file.');
+            setFile(null);
+            setHeaders([]);
+        }
+    };
+
+    // A re-run from the history: load the stored file with its sheet, columns
+    // and options, ready for the user to check and calculate.
+    useEffect(() => {
+        if (!request) return;
+        const load = async () => {
+            setGeneralError(null);
+            setResults([]);
+            setErrors([]);
+            try {
+                const format = detectFormat(request.file);
+                const sheetNames = format === 'xlsx' ? await listSheets(request.file) : [];
+                const fileHeaders = await readTableHeaders(request.file, { sheet: request.sheet });
+                setFile(request.file);
+                setSheets(sheetNames);
+                setSheet(request.sheet);
+                setHeaders(fileHeaders);
+                setMapping(request.mapping);
+                setRouteOptions(request.routeOptions);
+                if (format) setExportFormat(format);
+            } catch (err) {
+                setGeneralError(err instanceof Error ? err.message : 'Could not read the file.');
+            }
+        };
+        load();
+    }, [request]);
+
+    const handleSheetChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
+        if (!file) return;
+        const sheetName = e.target.value;
+        setSheet(sheetName);
+        setGeneralError(null);
+        try {
+            await loadHeaders(file, sheetName);
+        } catch (err) {
+            setGeneralError(err instanceof Error ? err.message : 'Could not read the sheet.');
+            setHeaders([]);
+        }
+    };
+
+    /**
+     * Runs every row not in `skipRows` in a worker, adding each batch of
+     * finished rows to state and, when the job is persisted, to IndexedDB.
+     * The run is recorded in the history, and its token usage counted with
+     * `spending`. Reaching the daily budget stops the run and leaves the job
+     * to be resumed.
+     */
+    const runTasks = async (job: BulkJob | null, skipRows: number[], jobSettings: BulkSettings, input: BulkRequest, spending: Spending) => {
+        const controller = new BulkWorkerJob();
+        controllerRef.current = controller;
+        jobRef.current = job;
+        setIsProcessing(true);
+        setIsPaused(false);
+        setJobUsage(NO_USAGE_TOTAL);
+
+        const counts = { succeeded: 0, failed: 0 };
+        let completed = false;
+        let budgetReached = false;
+
+        let totalSaved = false;
+
+        try {
+            completed = await controller.run(input, jobSettings, getActiveProvider().id, skipRows, {
+                onProgress: (processed, total) => {
+                    setProgress({ processed, total });
+                    if (job && !totalSaved) {
+                        totalSaved = true;
+                        updateJobTotal(job.id, total).catch(() => undefined);
+                    }
+                },
+                onRows: (batchResults, batchErrors) => {
+                    counts.succeeded += batchResults.length;
+                    counts.failed += batchErrors.length;
+                    let underBudget = true;
+                    for (const result of batchResults) {
+                        underBudget = spending.add(result.usage);
+                    }
+                    setJobUsage(spending.total);
+                    if (!underBudget && !budgetReached) {
+                        budgetReached = true;
+                        controller.cancel();
+                    }
+                    setResults(prev => prev.concat(batchResults));
+                    setErrors(prev => prev.concat(batchErrors));
+                    if (job) {
+                        const outcomes = [...batchResults.map(result => ({ result })), ...batchErrors.map(error => ({ error }))];
+                        saveRowOutcomes(job.id, outcomes).catch(err => console.error('Could not save progress:', err));
+                    }
+                },
+            });
+
+            if (budgetReached) {
+                setGeneralError(spending.overBudgetMessage);
+                if (job) {
+                    await updateJobStatus(job.id, 'paused').catch(() => undefined);
+                    setInterruptedJob({ ...job, status: 'paused' });
+                }
+            } else if (job) {
+                await deleteJob(job.id).catch(err => console.error('Could not remove finished job:', err));
+            }
+        } catch (err) {
+            // Leave the job paused so it can be resumed once the problem is fixed.
+            if (job) {
+                await updateJobStatus(job.id, 'paused').catch(() => undefined);
+            }
+            if (err instanceof ConfigurationError) {
+                setGeneralError("Processing stopped due to an API configuration issue.");
+            } else if (err instanceof Error) {
+                setGeneralError(err.message);
+            } else {
+                setGeneralError('An unexpected error occurred while processing the file.');
+            }
+        } finally {
+            // The rows come back from the worker; keep the previous ones if it never read the file.
+            if (controller.tasks.length > 0) {
+                setTasks(controller.tasks);
+            }
+            if (counts.succeeded + counts.failed > 0) {
+                addHistoryEntry({
+                    kind: 'bulk',
+                    ...input,
+                    fileName: input.file.name,
+                    provider: getActiveProvider().id,
+                    total: controller.tasks.length - skipRows.length,
+                    ...counts,
+                    completed,
+                }).catch(err => console.error('Could not save to history:', err));
+            }
+            controllerRef.current = null;
+            jobRef.current = null;
+            setIsProcessing(false);
+            setIsPaused(false);
+        }
+    };
+
+    /**
+     * Starts a run under today's budget, which also logs its usage. When the
+     * budget is already spent nothing starts and the budget message is shown.
+     */
+    const startWithinBudget = async (fileName: string, start: (spending: Spending) => Promise<void>) => {
+        try {
+            await withinBudget({ kind: 'bulk', label: fileName }, start);
+        } catch (err) {
+            setGeneralError(err instanceof Error ? err.message : 'An unexpected error occurred while processing the file.');
+        }
+    };
+
+    const handleBulkCalculate = async () => {
+        if (!file) return;
+
+        setResults([]);
+        setErrors([]);
+        setGeneralError(null);
+
+        await startWithinBudget(file.name, async spending => {
+            if (interruptedJob) {
+                deleteJob(interruptedJob.id).catch(() => undefined);
+                setInterruptedJob(null);
+            }
+
+            setTasks([]);
+            setProgress({ processed: 0, total: 0 });
+
+            // Checkpointing is best effort: without IndexedDB the run simply can't be resumed.
+            // The row count is filled in once the worker has read the file.
+            const job = await createJob(file, { sheet, mapping, routeOptions }, settings, 0).catch(err => {
+                console.error('Could not persist job:', err);
+                return null;
+            });
+            await runTasks(job, [], settings, { file, sheet, mapping, routeOptions }, spending);
+        });
+    };
+
+    /**
+     * Looks up only the rows that failed, keeping every successful result.
+     * The re-run is checkpointed as a new job seeded with those results, so it
+     * resumes like any other run.
+     */
+    const handleRerunFailed = async () => {
+        if (!file || errors.length === 0) return;
+        await startWithinBudget(file.name, async spending => {
+            const failedRows = new Set(errors.map(e => e.row));
+            const skipRows = tasks.filter(task => !failedRows.has(task.row)).map(task => task.row);
+            setErrors([]);
+            setGeneralError(null);
+            setProgress({ processed: skipRows.length, total: tasks.length });
+
+            const job = await createJob(file, { sheet, mapping, routeOptions }, settings, tasks.length)
+                .then(async created => {
+                    await saveRowOutcomes(created.id, results.map(result => ({ result })));
+                    return created;
+                })
+                .catch(err => {
+                    console.error('Could not persist job:', err);
+                    return null;
+                });
+            await runTasks(job, skipRows, settings, { file, sheet, mapping, routeOptions }, spending);
+        });
+    };
+
+    const handleResumeInterrupted = async () => {
+        const job = interruptedJob;
+        if (!job) return;
+        setGeneralError(null);
+        await startWithinBudget(job.file.name, async spending => {
+            setInterruptedJob(null);
+
+            // Jobs saved before route options existed ran with the defaults.
+            const jobRouteOptions = job.routeOptions ?? DEFAULT_ROUTE_OPTIONS;
+            const [outcomes, fileHeaders, sheetNames] = await Promise.all([
+                loadJobOutcomes(job.id),
+                readTableHeaders(job.file, { sheet: job.sheet }),
+                detectFormat(job.file) === 'xlsx' ? listSheets(job.file) : Promise.resolve([]),
+            ]);
+            const finished = [...outcomes.results, ...outcomes.errors].map(o => o.row);
+
+            setFile(job.file);
+            setSheets(sheetNames);
+            setSheet(job.sheet);
+            setHeaders(fileHeaders);
+            setMapping(job.mapping);
+            setRouteOptions(jobRouteOptions);
+            setSettings(job.settings);
+            setResults(outcomes.results);
+            setErrors(outcomes.errors);
+            setTasks([]);
+            setProgress({ processed: finished.length, total: job.total });
+
+            await updateJobStatus(job.id, 'running');
+            await runTasks(job, finished, job.settings, { file: job.file, sheet: job.sheet, mapping: job.mapping, routeOptions: jobRouteOptions }, spending);
+        });
+    };
+
+    const handleDiscardInterrupted = () => {
+        if (!interruptedJob) return;
+        deleteJob(interruptedJob.id).catch(err => console.error('Could not discard job:', err));
+        setInterruptedJob(null);
+    };
+
+    const handlePauseResume = () => {
+        const controller = controllerRef.current;
+        if (!controller) return;
+        const job = jobRef.current;
+        if (controller.isPaused) {
+            controller.resume();
+            setIsPaused(false);
+            if (job) updateJobStatus(job.id, 'running').catch(() => undefined);
+        } else {
+            controller.pause();
+            setIsPaused(true);
+            if (job) updateJobStatus(job.id, 'paused').catch(() => undefined);
+        }
+    };
+
+    const handleCancel = () => {
+        controllerRef.current?.cancel();
+    };
+
+    const handleDownload = () => {
+        const table = buildResultTable(headers, tasks, results, errors, rateCard);
+        downloadBlob(writeTable(table, exportFormat), `distance_results.${FORMATS[exportFormat].extension}`);
+    };
+
+    const handleClear = () => {
+        setFile(null);
+        setSheets([]);
+        setSheet(undefined);
+        setHeaders([]);
+        setTasks([]);
+        setResults([]);
+        setErrors([]);
+        setGeneralError(null);
+        setIsProcessing(false);
+        setProgress({ processed: 0, total: 0 });
+        setJobUsage(NO_USAGE_TOTAL);
+    };
+
+    return (
+        <div className="space-y-4">
+             <div className="text-center text-sm text-gray-400 p-4 bg-gray-900/50 rounded-lg">
+                <p>Upload a CSV, Excel or JSON file with an origin column and a destination column, e.g. <code className="text-cyan-400 font-mono">Origin Pin Code</code> and <code className="text-cyan-400 font-mono">Destination City</code>. Either column may hold pin codes, city or town names, or latitude,longitude pairs. Optional <code className="text-cyan-400 font-mono">Vehicle</code>, <code className="text-cyan-400 font-mono">Avoid Tolls</code>, <code className="text-cyan-400 font-mono">Avoid Highways</code> and <code className="text-cyan-400 font-mono">Departure Time</code> columns set route options per row. Other columns are kept in the results.</p>
+                <a href={sampleCsvUrl} download="sample_template.csv" className="text-cyan-500 hover:underline mt-1 inline-block">
+                    Download Template
+                </a>
+            </div>
+
+            {interruptedJob && !isProcessing && (
+                <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-md text-sm">
+                    <p>
+                        An interrupted run of <span className="font-semibold">{interruptedJob.fileName}</span> can be resumed from where it stopped.
+                    </p>
+                    <div className="flex space-x-3 mt-2">
+                        <button onClick={handleResumeInterrupted} className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-1 px-4 rounded-md transition">
+                            Resume
+                        </button>
+                        <button onClick={handleDiscardInterrupted} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-1 px-4 rounded-md transition">
+                            Discard
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            <FileUpload
+                file={file}
+                onFileSelect={handleFileSelect}
+                accept={ACCEPTED_INPUT_TYPES}
+                disabled={isProcessing}
+            />
+
+            {file && sheets.length > 1 && (
+                <label className="block text-sm text-gray-300">
+                    Sheet
+                    <select
+                        value={sheet}
+                        onChange={handleSheetChange}
+                        disabled={isProcessing}
+                        className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+                    >
+                        {sheets.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                </label>
+            )}
+
+            {file && headers.length > 0 && (
+                <ColumnMapper
+                    headers={headers}
+                    mapping={mapping}
+                    onChange={setMapping}
+                    disabled={isProcessing}
+                />
+            )}
+
+            <div className="space-y-1">
+                <p className="text-sm text-gray-400">Route options for rows without their own option columns</p>
+                <RouteOptionsForm options={routeOptions} onChange={setRouteOptions} disabled={isProcessing} />
+            </div>
+
+            <RateCardSelect value={rateCard} onChange={setRateCard} />
+
+            <div className="grid grid-cols-3 gap-3 text-sm">
+                <label className="text-gray-300">
+                    Parallel requests
+                    <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={settings.concurrency}
+                        onChange={(e) => setSettings(s => ({ ...s, concurrency: clamp(Number(e.target.value), 1, 10) }))}
+                        className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 outline-none"
+                        disabled={isProcessing}
+                    />
+                </label>
+                <label className="text-gray-300">
+                    Requests/min
+                    <input
+                        type="number"
+                        min={1}
+                        max={1000}
+                        value={settings.requestsPerMinute}
+                        onChange={(e) => setSettings(s => ({ ...s, requestsPerMinute: clamp(Number(e.target.value), 1, 1000) }))}
+                        className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 outline-none"
+                        disabled={isProcessing}
+                    />
+                </label>
+                <label className="text-gray-300">
+                    Retries
+                    <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        value={settings.maxRetries}
+                        onChange={(e) => setSettings(s => ({ ...s, maxRetries: clamp(Number(e.target.value), 0, 10) }))}
+                        className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 outline-none"
+                        disabled={isProcessing}
+                    />
+                </label>
+            </div>
+
+            {estimate && (
+                <div className="text-sm text-gray-400 p-3 bg-gray-900/50 rounded-lg text-center space-y-1">
+                    <p>
+                        {estimate.calls === 0
+                            ? 'Every route is cached, so this run needs no API calls.'
+                            : `Estimated API use: ${formatTokens(estimate.calls)} ${estimate.calls === 1 ? 'lookup' : 'lookups'} for ${formatTokens(estimate.rows)} rows`
+                                + `${estimate.calls < estimate.rows ? ' (the rest are cached, repeated or invalid)' : ''},`
+                                + ` about ${formatTokens(estimate.tokens)} tokens or ${formatUsd(estimate.cost)}.`}
+                    </p>
+                    {estimate.budget.limit !== null && (
+                        <p className={estimate.budget.spent + estimate.cost > estimate.budget.limit ? 'text-yellow-400' : ''}>
+                            {formatUsd(estimate.budget.spent)} of today's {formatUsd(estimate.budget.limit)} budget spent
+                            {estimate.budget.spent + estimate.cost > estimate.budget.limit ? '; the run may stop at the budget.' : '.'}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-2 sm:space-y-0 pt-2">
+                <button
+                    onClick={handleBulkCalculate}
+                    disabled={!file || isProcessing || mapping.origin === mapping.destination}
+                    className="flex-grow w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {isProcessing && !isPaused ? <LoadingSpinner /> : null}
+                    {isProcessing
+                        ? `${isPaused ? 'Paused' : 'Processing...'} (${progress.processed}/${progress.total})`
+                        : 'Calculate Distances'}
+                </button>
+                {isProcessing ? (
+                    <>
+                        <button
+                            type="button"
+                            onClick={handlePauseResume}
+                            className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300"
+                        >
+                            {isPaused ? 'Resume' : 'Pause'}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleCancel}
+                            className="w-full sm:w-auto bg-red-700 hover:bg-red-800 text-white font-bold py-3 px-6 rounded-md transition duration-300"
+                        >
+                            Cancel
+                        </button>
+                    </>
+                ) : (
+                    <button
+                        type="button"
+                        onClick={handleClear}
+                        className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Clear
+                    </button>
+                )}
+            </div>
+
+            {isProcessing && (
+                <div className="w-full bg-gray-700 rounded-full h-2.5">
+                    <div className="bg-cyan-600 h-2.5 rounded-full" style={{ width: `${progress.total > 0 ? (progress.processed / progress.total) * 100 : 0}%` }}></div>
+                </div>
+            )}
+
+            <div className="pt-4 min-h-[6rem]">
+                 {generalError && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
+                        <p>{generalError}</p>
+                    </div>
+                )}
+                {(results.length > 0 || errors.length > 0) && (
+                     <div className="bg-gray-900/50 border border-gray-700 p-4 rounded-lg text-center">
+                        <p className="text-green-400 font-bold">{isProcessing ? 'Processing...' : progress.processed < progress.total ? 'Processing stopped.' : 'Processing complete!'}</p>
+                        <p className="text-gray-300">{results.length} rows calculated successfully{errors.length > 0 ? `, ${errors.length} failed` : ''}.</p>
+                        {cacheHits > 0 && (
+                            <p className="text-gray-400 text-sm">{cacheHits} served from the route cache.</p>
+                        )}
+                        {jobUsage.calls > 0 && (
+                            <p className="text-gray-400 text-sm">
+                                API usage: {formatTokens(totalTokens(jobUsage))} tokens in {formatTokens(jobUsage.calls)} {jobUsage.calls === 1 ? 'call' : 'calls'}, about {formatUsd(usageCost(jobUsage))}.
+                            </p>
+                        )}
+                        {suspicious > 0 && (
+                            <p className="text-yellow-400 text-sm">
+                                {suspicious} {suspicious === 1 ? 'result looks' : 'results look'} suspicious; they are marked 'warning' in the download.
+                            </p>
+                        )}
+                        {totalCharge !== null && results.length > 0 && (
+                            <p className="text-gray-300 text-sm">
+                                Charges under "{rateCard?.name}": {formatRupees(totalCharge)} in total; each row's charge is in the download.
+                            </p>
+                        )}
+                        <div className="mt-4 flex justify-center items-center space-x-2">
+                            <select
+                                value={exportFormat}
+                                onChange={(e) => setExportFormat(e.target.value as TableFormat)}
+                                aria-label="Download format"
+                                className="px-2 py-2 bg-gray-700 border border-gray-600 rounded-md text-white text-sm focus:ring-2 focus:ring-cyan-500 outline-none"
+                            >
+                                {(Object.keys(FORMATS) as TableFormat[]).map(format => (
+                                    <option key={format} value={format}>{FORMATS[format].label}</option>
+                                ))}
+                            </select>
+                            <button onClick={handleDownload} disabled={isProcessing} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed">
+                                Download Results
+                            </button>
+                        </div>
+                        {errors.length > 0 && !isProcessing && (
+                            <button onClick={handleRerunFailed} className="mt-3 text-sm text-cyan-500 hover:underline">
+                                Re-run {errors.length} failed {errors.length === 1 ? 'row' : 'rows'}
+                            </button>
+                        )}
+                        {results.length > 0 && (
+                            <button onClick={() => setShowMap(show => !show)} className="mt-3 ml-4 text-sm text-cyan-500 hover:underline">
+                                {showMap ? 'Hide map' : 'Show on map'}
+                            </button>
+                        )}
+                    </div>
+                )}
+                {mapData && results.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                        <RouteMap segments={mapData.segments} />
+                        <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-xs text-gray-400">
+                            {DISTANCE_BANDS.map(band => (
+                                <span key={band.label} className="flex items-center">
+                                    <span className="inline-block w-3 h-3 rounded-full mr-1" style={{ backgroundColor: band.color }} />
+                                    {band.label}
+                                </span>
+                            ))}
+                        </div>
+                        {mapData.unplaced > 0 && (
+                            <p className="text-xs text-gray-500 text-center">
+                                {mapData.unplaced} {mapData.unplaced === 1 ? 'row is' : 'rows are'} not shown: a location is not in the offline gazetteer.
+                            </p>
+                        )}
+                    </div>
+                )}
+                {/* Shown once the run stops; re-sorting on every finished row would stall large runs. */}
+                {!isProcessing && (results.length > 0 || errors.length > 0) && (
+                    <div className="mt-4">
+                        <h3 className="text-cyan-400 font-semibold mb-2 text-center">Results</h3>
+                        <BulkResultsTable results={results} errors={errors} />
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default BulkCalculatorView;
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { EMPTY_FILTER, buildResultRows, filterResultRows, sortResultRows } from '../services/resultTable';
+import type { ResultFilter, ResultStatus, SortKey } from '../services/resultTable';
+import type { BulkError, BulkResultRow } from '../types';
+import OriginSummaryTable from './origin-summary-table';
+
+/** Rows are a fixed height so only the ones in view need rendering. */
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 384;
+/** Rows rendered above and below the viewport to avoid flicker while scrolling. */
+const OVERSCAN = 10;
+
+const COLUMNS: Array<{ key: SortKey | null; label: string; className: string }> = [
+    { key: 'row', label: 'Row', className: 'w-14' },
+    { key: 'origin', label: 'Origin', className: 'w-32' },
+    { key: 'destination', label: 'Destination', className: 'w-32' },
+    { key: 'status', label: 'Status', className: 'w-20' },
+    { key: 'distance', label: 'km', className: 'w-20 text-right' },
+    { key: 'minutes', label: 'Time', className: 'w-32' },
+    { key: null, label: 'Route / error', className: 'flex-1 min-w-[16rem]' },
+];
+
+const STATUS_CLASSES: Record<ResultStatus, string> = {
+    success: 'text-green-400',
+    warning: 'text-yellow-400',
+    failed: 'text-red-400',
+};
+
+/** Empty input clears the bound. */
+const parseBound = (value: string): number | null => (value.trim() === '' || Number.isNaN(Number(value)) ? null : Number(value));
+
+interface BulkResultsTableProps {
+    results: BulkResultRow[];
+    errors: BulkError[];
+}
+
+/**
+ * Every finished row of a bulk run in a sortable, filterable, virtualized
+ * table, with per-origin statistics for the rows that pass the filters.
+ */
+const BulkResultsTable: React.FC<BulkResultsTableProps> = ({ results, errors }) => {
+    const [filter, setFilter] = useState<ResultFilter>(EMPTY_FILTER);
+    const [sortKey, setSortKey] = useState<SortKey>('row');
+    const [descending, setDescending] = useState(false);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [showSummary, setShowSummary] = useState(false);
+
+    const rows = useMemo(() => buildResultRows(results, errors), [results, errors]);
+    const visibleRows = useMemo(
+        () => sortResultRows(filterResultRows(rows, filter), sortKey, descending),
+        [rows, filter, sortKey, descending],
+    );
+    const statusCounts = useMemo(() => {
+        const counts: Record<ResultStatus, number> = { success: 0, warning: 0, failed: 0 };
+        for (const row of rows) counts[row.status]++;
+        return counts;
+    }, [rows]);
+
+    const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const last = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+
+    const updateFilter = (change: Partial<ResultFilter>) => setFilter(current => ({ ...current, ...change }));
+
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            setDescending(d => !d);
+        } else {
+            setSortKey(key);
+            setDescending(false);
+        }
+    };
+
+    const inputClass = 'w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none';
+
+    return (
+        <div className="space-y-3 text-sm text-left">
+            <div className="grid grid-cols-2 gap-2">
+                <input
+                    type="text"
+                    value={filter.text}
+                    onChange={(e) => updateFilter({ text: e.target.value })}
+                    placeholder="Search origin, destination or route"
+                    aria-label="Search results"
+                    className={inputClass}
+                />
+                <select
+                    value={filter.status}
+                    onChange={(e) => updateFilter({ status: e.target.value as ResultFilter['status'] })}
+                    aria-label="Status"
+                    className={inputClass}
+                >
+                    <option value="all">All statuses ({rows.length})</option>
+                    <option value="success">Success ({statusCounts.success})</option>
+                    <option value="warning">Warning ({statusCounts.warning})</option>
+                    <option value="failed">Failed ({statusCounts.failed})</option>
+                </select>
+                <div className="flex items-center space-x-1 text-gray-400">
+                    <span className="w-10">km</span>
+                    <input type="number" min={0} placeholder="min" aria-label="Minimum distance" className={inputClass}
+                        onChange={(e) => updateFilter({ minDistance: parseBound(e.target.value) })} />
+                    <input type="number" min={0} placeholder="max" aria-label="Maximum distance" className={inputClass}
+                        onChange={(e) => updateFilter({ maxDistance: parseBound(e.target.value) })} />
+                </div>
+                <div className="flex items-center space-x-1 text-gray-400">
+                    <span className="w-10">min</span>
+                    <input type="number" min={0} placeholder="min" aria-label="Minimum travel time in minutes" className={inputClass}
+                        onChange={(e) => updateFilter({ minMinutes: parseBound(e.target.value) })} />
+                    <input type="number" min={0} placeholder="max" aria-label="Maximum travel time in minutes" className={inputClass}
+                        onChange={(e) => updateFilter({ maxMinutes: parseBound(e.target.value) })} />
+                </div>
+            </div>
+
+            <p className="text-gray-400">
+                Showing {visibleRows.length.toLocaleString('en-IN')} of {rows.length.toLocaleString('en-IN')} rows.
+            </p>
+
+            <div className="overflow-x-auto bg-gray-900/50 rounded-lg">
+                <div className="min-w-[46rem]">
+                    <div className="flex text-gray-400 bg-gray-900 border-b border-gray-700" role="row">
+                        {COLUMNS.map(({ key, label, className }) => (
+                            <div key={label} className={`px-2 py-2 ${className}`} role="columnheader">
+                                {key ? (
+                                    <button onClick={() => handleSort(key)} className="hover:text-white">
+                                        {label}{sortKey === key ? (descending ? ' ▼' : ' ▲') : ''}
+                                    </button>
+                                ) : label}
+                            </div>
+                        ))}
+                    </div>
+                    <div
+                        className="overflow-y-auto"
+                        style={{ height: Math.min(VIEWPORT_HEIGHT, Math.max(visibleRows.length, 1) * ROW_HEIGHT) }}
+                        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                    >
+                        {visibleRows.length === 0 ? (
+                            <p className="text-gray-500 text-center py-1">No rows match the filters.</p>
+                        ) : (
+                            <div className="relative" style={{ height: visibleRows.length * ROW_HEIGHT }}>
+                                {visibleRows.slice(first, last).map((row, i) => (
+                                    <div
+                                        key={row.row}
+                                        role="row"
+                                        className="absolute left-0 right-0 flex items-center border-b border-gray-800 text-gray-300"
+                                        style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                                    >
+                                        <div className="px-2 w-14 font-mono">{row.row}</div>
+                                        <div className="px-2 w-32 truncate" title={row.origin}>{row.origin}</div>
+                                        <div className="px-2 w-32 truncate" title={row.destination}>{row.destination}</div>
+                                        <div className={`px-2 w-20 ${STATUS_CLASSES[row.status]}`}>{row.status}</div>
+                                        <div className="px-2 w-20 text-right">{row.distance?.toLocaleString('en-IN') ?? ''}</div>
+                                        <div className="px-2 w-32 truncate" title={row.travelTime}>{row.travelTime}</div>
+                                        <div className={`px-2 flex-1 min-w-[16rem] truncate ${row.status === 'failed' ? 'text-red-400' : ''}`} title={row.detail}>
+                                            {row.detail}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+
+            <button onClick={() => setShowSummary(show => !show)} className="text-cyan-500 hover:underline">
+                {showSummary ? 'Hide summary by origin' : 'Show summary by origin'}
+            </button>
+            {showSummary && <OriginSummaryTable rows={visibleRows} />}
+        </div>
+    );
+};
+
+export default BulkResultsTable;
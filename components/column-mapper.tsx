@@ -0,0 +1,77 @@
+import React from 'react';
+import type { ColumnMapping } from '../types';
+
+interface ColumnMapperProps {
+    headers: string[];
+    mapping: ColumnMapping;
+    onChange: (mapping: ColumnMapping) => void;
+    disabled?: boolean;
+}
+
+const FIELDS: { key: 'origin' | 'destination'; label: string }[] = [
+    { key: 'origin', label: 'Origin column' },
+    { key: 'destination', label: 'Destination column' },
+];
+
+const OPTION_FIELDS: { key: Exclude<keyof ColumnMapping, 'origin' | 'destination'>; label: string }[] = [
+    { key: 'vehicle', label: 'Vehicle column' },
+    { key: 'avoidTolls', label: 'Avoid tolls column' },
+    { key: 'avoidHighways', label: 'Avoid highways column' },
+    { key: 'departureTime', label: 'Departure time column' },
+];
+
+const selectClassName = "mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none";
+
+const ColumnMapper: React.FC<ColumnMapperProps> = ({ headers, mapping, onChange, disabled = false }) => {
+    const sameColumn = mapping.origin === mapping.destination;
+
+    const columnOptions = headers.map((header, index) => (
+        <option key={index} value={index}>
+            {header || `Column ${index + 1}`}
+        </option>
+    ));
+
+    return (
+        <div className="bg-gray-900/50 p-4 rounded-lg space-y-3 text-sm">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {FIELDS.map(({ key, label }) => (
+                    <label key={key} className="text-gray-300">
+                        {label}
+                        <select
+                            value={mapping[key]}
+                            onChange={(e) => onChange({ ...mapping, [key]: Number(e.target.value) })}
+                            disabled={disabled}
+                            className={selectClassName}
+                        >
+                            {columnOptions}
+                        </select>
+                    </label>
+                ))}
+            </div>
+            <details>
+                <summary className="text-gray-400 cursor-pointer">Per-row route options (optional)</summary>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-2">
+                    {OPTION_FIELDS.map(({ key, label }) => (
+                        <label key={key} className="text-gray-300">
+                            {label}
+                            <select
+                                value={mapping[key] ?? ''}
+                                onChange={(e) => onChange({ ...mapping, [key]: e.target.value === '' ? undefined : Number(e.target.value) })}
+                                disabled={disabled}
+                                className={selectClassName}
+                            >
+                                <option value="">None</option>
+                                {columnOptions}
+                            </select>
+                        </label>
+                    ))}
+                </div>
+            </details>
+            {sameColumn && (
+                <p className="text-red-400">Origin and destination must be different columns.</p>
+            )}
+        </div>
+    );
+};
+
+export default ColumnMapper;
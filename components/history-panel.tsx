@@ -0,0 +1,243 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { clearHistory, deleteHistoryEntry, distanceChanges, listFavourites, listHistory, pairKey, setFavourite } from '../services/history';
+import { formatAge } from '../services/relativeTime';
+import { describeRouteOptions, routeOptionsKey } from '../services/routeOptions';
+import type { BulkHistoryEntry, FavouritePair, HistoryEntry, SingleHistoryEntry, SingleRequest } from '../types';
+
+type Filter = 'all' | 'single' | 'bulk' | 'pinned';
+
+const FILTERS: { id: Filter; label: string }[] = [
+    { id: 'all', label: 'All' },
+    { id: 'single', label: 'Single' },
+    { id: 'bulk', label: 'Bulk' },
+    { id: 'pinned', label: 'Pinned' },
+];
+
+/** Every run of one origin/destination pair, newest first. */
+interface PairGroup {
+    key: string;
+    pair: SingleRequest;
+    runs: SingleHistoryEntry[];
+    pinned: boolean;
+}
+
+interface HistoryPanelProps {
+    onRerunSingle: (entry: SingleRequest) => void;
+    onRerunBulk: (entry: BulkHistoryEntry) => void;
+}
+
+const formatChange = (change: number | null, percent: number | null): string => {
+    if (change === null) return 'first run';
+    if (change === 0) return 'no change';
+    const sign = change > 0 ? '+' : '−';
+    return `${sign}${Math.abs(change).toLocaleString('en-IN')} km${percent === null ? '' : ` (${sign}${Math.abs(percent).toFixed(1)}%)`}`;
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onRerunSingle, onRerunBulk }) => {
+    const [entries, setEntries] = useState<HistoryEntry[]>([]);
+    const [favourites, setFavourites] = useState<FavouritePair[]>([]);
+    const [query, setQuery] = useState('');
+    const [filter, setFilter] = useState<Filter>('all');
+    const [comparing, setComparing] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [history, pinned] = await Promise.all([listHistory(), listFavourites()]);
+            setEntries(history);
+            setFavourites(pinned);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read the history.');
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const groups = useMemo(() => {
+        const pinnedKeys = new Set(favourites.map(f => f.key));
+        const byKey = new Map<string, PairGroup>();
+        for (const favourite of favourites) {
+            byKey.set(favourite.key, { key: favourite.key, pair: favourite, runs: [], pinned: true });
+        }
+        for (const entry of entries) {
+            if (entry.kind !== 'single') continue;
+            const key = pairKey(entry);
+            const group = byKey.get(key) ?? { key, pair: entry, runs: [], pinned: pinnedKeys.has(key) };
+            group.runs.push(entry);
+            byKey.set(key, group);
+        }
+        // Pinned pairs first, then by most recent run.
+        const latest = (group: PairGroup) => group.runs[0]?.createdAt ?? 0;
+        return Array.from(byKey.values()).sort((a, b) => Number(b.pinned) - Number(a.pinned) || latest(b) - latest(a));
+    }, [entries, favourites]);
+
+    const needle = query.trim().toLowerCase();
+    const matches = (text: string) => !needle || text.toLowerCase().includes(needle);
+
+    const visibleGroups = filter === 'bulk' ? [] : groups.filter(group =>
+        (filter !== 'pinned' || group.pinned)
+        && matches(`${group.pair.origin} ${group.pair.destination} ${group.runs.map(r => r.provider).join(' ')}`));
+    const visibleBulk = filter === 'single' || filter === 'pinned' ? [] : entries.filter((entry): entry is BulkHistoryEntry =>
+        entry.kind === 'bulk' && matches(`${entry.fileName} ${entry.provider}`));
+
+    const handleTogglePin = async (group: PairGroup) => {
+        await setFavourite(group.pair, !group.pinned).catch(err => setError(err instanceof Error ? err.message : 'Could not update pins.'));
+        await refresh();
+    };
+
+    const handleDelete = async (id: string) => {
+        await deleteHistoryEntry(id);
+        await refresh();
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Remove every history entry? Pinned pairs are kept.')) return;
+        await clearHistory();
+        await refresh();
+    };
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-cyan-400">History</h2>
+                <span className="text-gray-400">{entries.length} runs</span>
+            </div>
+
+            <div className="flex space-x-2">
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Search by origin, destination, file or provider"
+                    className="flex-grow px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 outline-none"
+                />
+                <select
+                    value={filter}
+                    onChange={(e) => setFilter(e.target.value as Filter)}
+                    aria-label="Show"
+                    className="px-2 py-2 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+                >
+                    {FILTERS.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                </select>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto bg-gray-900/50 rounded-lg divide-y divide-gray-800">
+                {visibleGroups.length === 0 && visibleBulk.length === 0 && (
+                    <p className="text-gray-500 text-center p-4">No matching history.</p>
+                )}
+
+                {visibleGroups.map(group => {
+                    const latest = group.runs[0];
+                    const hasOptions = routeOptionsKey(group.pair.options) !== '';
+                    return (
+                        <div key={group.key} className="p-2 space-y-1">
+                            <div className="flex items-start justify-between">
+                                <div className="text-gray-300">
+                                    <p>
+                                        <button
+                                            onClick={() => handleTogglePin(group)}
+                                            className={`mr-1 ${group.pinned ? 'text-yellow-400' : 'text-gray-600 hover:text-gray-400'}`}
+                                            aria-label={group.pinned ? 'Unpin pair' : 'Pin pair'}
+                                            title={group.pinned ? 'Unpin pair' : 'Pin pair'}
+                                        >
+                                            ★
+                                        </button>
+                                        {group.pair.origin} &rarr; {group.pair.destination}
+                                    </p>
+                                    {hasOptions && <p className="text-xs text-gray-500">{describeRouteOptions(group.pair.options)}</p>}
+                                    {latest ? (
+                                        <p className="text-xs text-gray-400">
+                                            {latest.info.distance.toLocaleString('en-IN')} km · {latest.info.travelTime} · {latest.provider} · {formatAge(latest.createdAt)}
+                                        </p>
+                                    ) : (
+                                        <p className="text-xs text-gray-500">No runs yet.</p>
+                                    )}
+                                </div>
+                                <div className="flex flex-col items-end space-y-1">
+                                    <button onClick={() => onRerunSingle(group.pair)} className="text-cyan-500 hover:underline">
+                                        Re-run
+                                    </button>
+                                    {group.runs.length > 1 && (
+                                        <button
+                                            onClick={() => setComparing(current => current === group.key ? null : group.key)}
+                                            className="text-gray-400 hover:underline"
+                                            aria-expanded={comparing === group.key}
+                                        >
+                                            Compare {group.runs.length} runs
+                                        </button>
+                                    )}
+                                </div>
+                            </div>
+                            {comparing === group.key && (
+                                <table className="w-full text-xs text-left">
+                                    <thead className="text-gray-500">
+                                        <tr>
+                                            <th className="py-1">Run</th>
+                                            <th className="py-1">Provider</th>
+                                            <th className="py-1">Distance</th>
+                                            <th className="py-1">Change</th>
+                                            <th></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {distanceChanges(group.runs).map(({ entry, change, percent }) => (
+                                            <tr key={entry.id} className="text-gray-300">
+                                                <td className="py-1">{new Date(entry.createdAt).toLocaleString('en-IN')}</td>
+                                                <td className="py-1">{entry.provider}{entry.fromCache ? ' (cached)' : ''}</td>
+                                                <td className="py-1">{entry.info.distance.toLocaleString('en-IN')} km</td>
+                                                <td className={`py-1 ${change ? 'text-yellow-400' : 'text-gray-500'}`}>{formatChange(change, percent)}</td>
+                                                <td className="py-1 text-right">
+                                                    <button onClick={() => handleDelete(entry.id)} className="text-gray-500 hover:text-red-400" aria-label="Delete run">
+                                                        &times;
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </div>
+                    );
+                })}
+
+                {visibleBulk.map(entry => (
+                    <div key={entry.id} className="p-2 flex items-start justify-between">
+                        <div className="text-gray-300">
+                            <p>{entry.fileName}</p>
+                            <p className="text-xs text-gray-400">
+                                {entry.total} rows · {entry.succeeded} succeeded{entry.failed > 0 ? `, ${entry.failed} failed` : ''}
+                                {entry.completed ? '' : ' · stopped early'} · {entry.provider} · {formatAge(entry.createdAt)}
+                            </p>
+                        </div>
+                        <div className="flex flex-col items-end space-y-1">
+                            {entry.file ? (
+                                <button onClick={() => onRerunBulk(entry)} className="text-cyan-500 hover:underline">
+                                    Re-run
+                                </button>
+                            ) : (
+                                <span className="text-xs text-gray-500" title="Only the most recent bulk runs keep their uploaded file.">
+                                    File not kept
+                                </span>
+                            )}
+                            <button onClick={() => handleDelete(entry.id)} className="text-gray-500 hover:text-red-400">
+                                Delete
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {error && <p className="text-red-400">{error}</p>}
+
+            <div className="flex space-x-3">
+                <button onClick={handleClear} disabled={entries.length === 0} className="bg-red-700 hover:bg-red-800 text-white font-bold py-2 px-4 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed">
+                    Clear history
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { parseLocation } from '../services/location';
+import { placeLabel, searchPlaces } from '../services/placeSearch';
+import type { LocationKind } from '../types';
+
+const KIND_LABELS: Record<LocationKind, string> = {
+    pincode: 'Pin code',
+    place: 'City or town',
+    coordinates: 'Coordinates',
+};
+
+/** Suggestions start after this many characters. */
+const MIN_QUERY_LENGTH = 2;
+
+interface LocationInputProps {
+    id: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+    error: string | null;
+    disabled: boolean;
+}
+
+/**
+ * Text input for a route endpoint. Place names get a typeahead of gazetteer
+ * places (fuzzy matched, with their state); choosing one fills in its
+ * canonical 'Name, State'.
+ */
+const LocationInput: React.FC<LocationInputProps> = ({ id, label, value, onChange, error, disabled }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(0);
+
+    const location = parseLocation(value);
+    const suggestions = useMemo(
+        () => (location.kind === 'place' && location.name.length >= MIN_QUERY_LENGTH ? searchPlaces(location.name) : []),
+        [location.kind, location.value],
+    );
+    const showSuggestions = isOpen && suggestions.length > 0
+        && !(suggestions.length === 1 && placeLabel(suggestions[0]) === value.trim());
+
+    const choose = (index: number) => {
+        onChange(placeLabel(suggestions[index]));
+        setIsOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (!showSuggestions) return;
+        if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            setHighlighted(i => (i + 1) % suggestions.length);
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            choose(highlighted);
+        } else if (e.key === 'Escape') {
+            setIsOpen(false);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <label htmlFor={id} className="block text-sm font-medium text-gray-300 mb-1">
+                {label}
+            </label>
+            <input
+                id={id}
+                type="text"
+                value={value}
+                onChange={(e) => {
+                    onChange(e.target.value);
+                    setIsOpen(true);
+                    setHighlighted(0);
+                }}
+                onKeyDown={handleKeyDown}
+                onBlur={() => setIsOpen(false)}
+                placeholder="Pin code, city or town, or latitude,longitude"
+                autoComplete="off"
+                role="combobox"
+                aria-expanded={showSuggestions}
+                aria-controls={`${id}-suggestions`}
+                className={`w-full px-4 py-2 bg-gray-700 border rounded-md focus:ring-2 outline-none transition ${error ? 'border-red-500 focus:ring-red-500' : 'border-gray-600 focus:ring-cyan-500 focus:border-cyan-500'}`}
+                disabled={disabled}
+                aria-invalid={!!error}
+                aria-describedby={`${id}-error`}
+            />
+            {showSuggestions && (
+                <ul id={`${id}-suggestions`} role="listbox" className="absolute z-10 w-full mt-1 bg-gray-700 border border-gray-600 rounded-md shadow-lg max-h-60 overflow-y-auto text-sm">
+                    {suggestions.map((place, index) => (
+                        <li
+                            key={placeLabel(place)}
+                            role="option"
+                            aria-selected={index === highlighted}
+                            // mousedown fires before the input's blur closes the list.
+                            onMouseDown={(e) => {
+                                e.preventDefault();
+                                choose(index);
+                            }}
+                            onMouseEnter={() => setHighlighted(index)}
+                            className={`px-4 py-2 cursor-pointer ${index === highlighted ? 'bg-cyan-700 text-white' : 'text-gray-200'}`}
+                        >
+                            {place.name}
+                            <span className="text-gray-400">, {place.state}</span>
+                            {place.alias && <span className="text-gray-400 text-xs"> ({place.alias})</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {error ? (
+                <p id={`${id}-error`} className="text-red-400 text-sm mt-1">
+                    {error}
+                </p>
+            ) : value.trim() && (
+                <p className="text-gray-500 text-xs mt-1">{KIND_LABELS[location.kind]}</p>
+            )}
+        </div>
+    );
+};
+
+export default LocationInput;
@@ -0,0 +1,264 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { DEFAULT_BULK_SETTINGS } from '../services/bulkProcessor';
+import { toCsv } from '../services/csv';
+import { computeDistanceMatrix, matrixToTable, nearestOrigins } from '../services/distanceMatrix';
+import { downloadBlob } from '../services/download';
+import { ConfigurationError } from '../services/errors';
+import { JobController } from '../services/jobRunner';
+import { ACCEPTED_INPUT_TYPES, readTable } from '../services/tableFormats';
+import { withinBudget } from '../services/usage';
+import type { DistanceMatrixResult } from '../types';
+import LoadingSpinner from './ui/loading-spinner';
+
+/** Column to sort destinations by: their name, or the distance from an origin. */
+type SortKey = { by: 'destination' } | { by: 'origin'; index: number } | { by: 'nearest' };
+
+const splitList = (text: string): string[] => text.split(/[\n;]+/).map(v => v.trim()).filter(Boolean);
+
+interface LocationListProps {
+    id: string;
+    label: string;
+    placeholder: string;
+    value: string;
+    onChange: (value: string) => void;
+    disabled: boolean;
+}
+
+const LocationList: React.FC<LocationListProps> = ({ id, label, placeholder, value, onChange, disabled }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Uploaded lists use the first column of each data row.
+    const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const { rows } = await readTable(file);
+            onChange(rows.map(row => row[0]?.trim() ?? '').filter(Boolean).join('\n'));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read the file.');
+        }
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-1">
+                <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
+                <button type="button" onClick={() => inputRef.current?.click()} disabled={disabled} className="text-xs text-cyan-500 hover:underline disabled:opacity-50">
+                    Upload list
+                </button>
+                <input ref={inputRef} type="file" accept={ACCEPTED_INPUT_TYPES} onChange={handleUpload} className="hidden" />
+            </div>
+            <textarea
+                id={id}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                placeholder={placeholder}
+                rows={5}
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition text-sm"
+                disabled={disabled}
+            />
+            <p className="text-xs text-gray-500">{splitList(value).length} entries</p>
+            {error && <p className="text-red-400 text-sm">{error}</p>}
+        </div>
+    );
+};
+
+const MatrixView: React.FC = () => {
+    const [originsText, setOriginsText] = useState('');
+    const [destinationsText, setDestinationsText] = useState('');
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [progress, setProgress] = useState({ processed: 0, total: 0 });
+    const [error, setError] = useState<string | null>(null);
+    const [matrix, setMatrix] = useState<DistanceMatrixResult | null>(null);
+    const [sort, setSort] = useState<SortKey>({ by: 'destination' });
+    const [sortAscending, setSortAscending] = useState(true);
+    const controllerRef = useRef<JobController | null>(null);
+
+    const nearest = useMemo(() => (matrix ? nearestOrigins(matrix) : []), [matrix]);
+
+    const sortedRows = useMemo(() => {
+        if (!matrix) return [];
+        const distanceOf = (d: number): number => {
+            const o = sort.by === 'origin' ? sort.index : nearest[d];
+            return o === -1 ? Infinity : matrix.cells[d][o].info?.distance ?? Infinity;
+        };
+        const rows = matrix.destinations.map((_, d) => d);
+        rows.sort((a, b) => {
+            const order = sort.by === 'destination'
+                ? matrix.destinations[a].localeCompare(matrix.destinations[b])
+                : distanceOf(a) - distanceOf(b);
+            return sortAscending ? order : -order;
+        });
+        return rows;
+    }, [matrix, nearest, sort, sortAscending]);
+
+    const handleSort = (key: SortKey) => {
+        const same = JSON.stringify(key) === JSON.stringify(sort);
+        setSortAscending(same ? !sortAscending : true);
+        setSort(key);
+    };
+
+    const sortIndicator = (key: SortKey) =>
+        JSON.stringify(key) === JSON.stringify(sort) ? (sortAscending ? ' ▲' : ' ▼') : '';
+
+    const handleCalculate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setMatrix(null);
+        setIsProcessing(true);
+        const controller = new JobController();
+        controllerRef.current = controller;
+
+        try {
+            const origins = splitList(originsText);
+            const destinations = splitList(destinationsText);
+            const label = `${origins.length} × ${destinations.length} matrix`;
+            setMatrix(await withinBudget({ kind: 'matrix', label }, async spending => {
+                const result = await computeDistanceMatrix(
+                    origins,
+                    destinations,
+                    DEFAULT_BULK_SETTINGS,
+                    (processed, total) => setProgress({ processed, total }),
+                    controller,
+                );
+                spending.add(result.usage);
+                return result;
+            }));
+        } catch (err) {
+            if (err instanceof ConfigurationError) {
+                setError("Processing stopped due to an API configuration issue.");
+            } else {
+                setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+            }
+        } finally {
+            controllerRef.current = null;
+            setIsProcessing(false);
+        }
+    };
+
+    const handleDownload = () => {
+        if (!matrix) return;
+        downloadBlob(new Blob([toCsv(matrixToTable(matrix))], { type: 'text/csv;charset=utf-8;' }), 'distance_matrix.csv');
+    };
+
+    const handleClear = () => {
+        setOriginsText('');
+        setDestinationsText('');
+        setError(null);
+        setMatrix(null);
+        setProgress({ processed: 0, total: 0 });
+    };
+
+    return (
+        <>
+            <form onSubmit={handleCalculate} className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <LocationList
+                        id="matrix-origins"
+                        label="Origins"
+                        placeholder={'One per line, e.g.\n400001\n110001'}
+                        value={originsText}
+                        onChange={setOriginsText}
+                        disabled={isProcessing}
+                    />
+                    <LocationList
+                        id="matrix-destinations"
+                        label="Destinations"
+                        placeholder={'One per line, e.g.\nPune\nJaipur'}
+                        value={destinationsText}
+                        onChange={setDestinationsText}
+                        disabled={isProcessing}
+                    />
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-2 sm:space-y-0 pt-2">
+                    <button
+                        type="submit"
+                        disabled={isProcessing}
+                        className="flex-grow w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isProcessing ? <LoadingSpinner /> : null}
+                        {isProcessing ? `Calculating... (${progress.processed}/${progress.total})` : 'Calculate Matrix'}
+                    </button>
+                    {isProcessing ? (
+                        <button
+                            type="button"
+                            onClick={() => controllerRef.current?.cancel()}
+                            className="w-full sm:w-auto bg-red-700 hover:bg-red-800 text-white font-bold py-3 px-6 rounded-md transition duration-300"
+                        >
+                            Cancel
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={handleClear}
+                            className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+            </form>
+
+            <div className="pt-4 min-h-[6rem]">
+                {error && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
+                        <p>{error}</p>
+                    </div>
+                )}
+                {matrix && (
+                    <div className="space-y-3">
+                        <div className="overflow-auto max-h-96 bg-gray-900/50 rounded-lg">
+                            <table className="text-sm text-left">
+                                <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                                    <tr>
+                                        <th className="p-2 cursor-pointer whitespace-nowrap" onClick={() => handleSort({ by: 'destination' })}>
+                                            Destination{sortIndicator({ by: 'destination' })}
+                                        </th>
+                                        {matrix.origins.map((origin, o) => (
+                                            <th key={o} className="p-2 cursor-pointer whitespace-nowrap" onClick={() => handleSort({ by: 'origin', index: o })}>
+                                                {origin}{sortIndicator({ by: 'origin', index: o })}
+                                            </th>
+                                        ))}
+                                        <th className="p-2 cursor-pointer whitespace-nowrap" onClick={() => handleSort({ by: 'nearest' })}>
+                                            Nearest{sortIndicator({ by: 'nearest' })}
+                                        </th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {sortedRows.map(d => (
+                                        <tr key={d} className="border-t border-gray-800">
+                                            <td className="p-2 text-gray-300 whitespace-nowrap">{matrix.destinations[d]}</td>
+                                            {matrix.cells[d].map((cell, o) => (
+                                                <td
+                                                    key={o}
+                                                    title={cell.error ?? cell.info?.travelTime}
+                                                    className={`p-2 whitespace-nowrap ${o === nearest[d] ? 'bg-green-900/60 text-green-300 font-semibold' : cell.error ? 'text-red-400' : 'text-gray-300'}`}
+                                                >
+                                                    {cell.info ? `${cell.info.distance.toLocaleString('en-IN')} km` : cell.error ? 'failed' : '–'}
+                                                </td>
+                                            ))}
+                                            <td className="p-2 text-gray-300 whitespace-nowrap">
+                                                {nearest[d] === -1 ? '–' : matrix.origins[nearest[d]]}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div className="text-center">
+                            <button onClick={handleDownload} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-md transition">
+                                Download Matrix CSV
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default MatrixView;
@@ -0,0 +1,217 @@
+import React, { useState, useCallback } from 'react';
+import { DEFAULT_BULK_SETTINGS } from '../services/bulkProcessor';
+import { ConfigurationError } from '../services/errors';
+import { parseLocation, validateLocation } from '../services/location';
+import { DEFAULT_ROUTE_OPTIONS } from '../services/routeOptions';
+import { buildDirectionsUrl, planRoute } from '../services/routePlanner';
+import { formatTravelTime } from '../services/travelTime';
+import { withinBudget } from '../services/usage';
+import type { RouteOptions, RoutePlan } from '../types';
+import RouteOptionsForm from './route-options-form';
+import LoadingSpinner from './ui/loading-spinner';
+
+const MAX_STOPS = 20;
+
+const MultiStopView: React.FC = () => {
+    const [startPinCode, setStartPinCode] = useState('');
+    const [stops, setStops] = useState<string[]>(['', '']);
+    const [optimize, setOptimize] = useState(true);
+    const [returnToStart, setReturnToStart] = useState(false);
+    const [routeOptions, setRouteOptions] = useState<RouteOptions>(DEFAULT_ROUTE_OPTIONS);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [plan, setPlan] = useState<RoutePlan | null>(null);
+
+    const updateStop = (index: number, value: string) => {
+        setStops(current => current.map((stop, i) => (i === index ? value : stop)));
+    };
+
+    const removeStop = (index: number) => {
+        setStops(current => current.filter((_, i) => i !== index));
+    };
+
+    const handleCalculate = useCallback(async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setPlan(null);
+
+        const startError = validateLocation(parseLocation(startPinCode));
+        if (startError) {
+            setError(startError);
+            return;
+        }
+        const filledStops = stops.map(stop => stop.trim()).filter(Boolean);
+        if (filledStops.length === 0) {
+            setError('Please enter at least one stop.');
+            return;
+        }
+        for (const stop of filledStops) {
+            const stopError = validateLocation(parseLocation(stop));
+            if (stopError) {
+                setError(stopError);
+                return;
+            }
+        }
+
+        setIsLoading(true);
+        try {
+            const label = `${startPinCode.trim()} → ${filledStops.length} ${filledStops.length === 1 ? 'stop' : 'stops'}`;
+            setPlan(await withinBudget({ kind: 'route', label }, async spending => {
+                const planned = await planRoute([startPinCode.trim(), ...filledStops], {
+                    optimize,
+                    returnToStart,
+                    routeOptions,
+                    settings: DEFAULT_BULK_SETTINGS,
+                });
+                spending.add(planned.usage);
+                return planned;
+            }));
+        } catch (err) {
+            if (err instanceof ConfigurationError) {
+                setError("There is an issue with the API configuration. Please try again later.");
+            } else {
+                setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+            }
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [startPinCode, stops, optimize, returnToStart, routeOptions]);
+
+    const handleClear = useCallback(() => {
+        setStartPinCode('');
+        setStops(['', '']);
+        setError(null);
+        setPlan(null);
+    }, []);
+
+    return (
+        <>
+            <form onSubmit={handleCalculate} className="space-y-4">
+                <div>
+                    <label htmlFor="start-pincode" className="block text-sm font-medium text-gray-300 mb-1">
+                        Start (e.g., your warehouse's pin code)
+                    </label>
+                    <input
+                        id="start-pincode"
+                        type="text"
+                        value={startPinCode}
+                        onChange={(e) => setStartPinCode(e.target.value)}
+                        placeholder="Pin code, city or town, or latitude,longitude"
+                        className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition"
+                        disabled={isLoading}
+                    />
+                </div>
+
+                <div className="space-y-2">
+                    <span className="block text-sm font-medium text-gray-300">Stops (pin code, city or town, or latitude,longitude)</span>
+                    {stops.map((stop, index) => (
+                        <div key={index} className="flex space-x-2">
+                            <input
+                                type="text"
+                                value={stop}
+                                onChange={(e) => updateStop(index, e.target.value)}
+                                placeholder={`Stop ${index + 1}`}
+                                aria-label={`Stop ${index + 1}`}
+                                className="flex-grow px-4 py-2 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 outline-none transition"
+                                disabled={isLoading}
+                            />
+                            <button
+                                type="button"
+                                onClick={() => removeStop(index)}
+                                disabled={isLoading || stops.length === 1}
+                                className="px-3 bg-gray-600 hover:bg-gray-700 text-white rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+                                aria-label={`Remove stop ${index + 1}`}
+                            >
+                                &times;
+                            </button>
+                        </div>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={() => setStops(current => [...current, ''])}
+                        disabled={isLoading || stops.length >= MAX_STOPS}
+                        className="text-sm text-cyan-500 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        + Add stop
+                    </button>
+                </div>
+
+                <div className="flex flex-col sm:flex-row sm:space-x-6 text-sm text-gray-300">
+                    <label className="flex items-center space-x-2">
+                        <input type="checkbox" checked={optimize} onChange={(e) => setOptimize(e.target.checked)} disabled={isLoading} />
+                        <span>Optimize stop order</span>
+                    </label>
+                    <label className="flex items-center space-x-2">
+                        <input type="checkbox" checked={returnToStart} onChange={(e) => setReturnToStart(e.target.checked)} disabled={isLoading} />
+                        <span>Return to start</span>
+                    </label>
+                </div>
+
+                <RouteOptionsForm options={routeOptions} onChange={setRouteOptions} disabled={isLoading} />
+
+                <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-2 sm:space-y-0 pt-2">
+                    <button
+                        type="submit"
+                        disabled={isLoading}
+                        className="flex-grow w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isLoading ? <LoadingSpinner /> : null}
+                        {isLoading ? 'Planning...' : 'Plan Route'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleClear}
+                        disabled={isLoading}
+                        className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Clear
+                    </button>
+                </div>
+            </form>
+
+            <div className="pt-4 min-h-[6rem]">
+                {error && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
+                        <p>{error}</p>
+                    </div>
+                )}
+                {plan && !error && (
+                    <div className="bg-gray-900/50 border border-gray-700 p-4 rounded-lg space-y-4">
+                        <div className="text-left text-gray-300">
+                            <p className="text-xl font-bold text-green-400">
+                                {plan.totalDistance.toLocaleString('en-IN')} km
+                                {plan.totalMinutes !== null && (
+                                    <span className="text-gray-400 font-normal"> ({formatTravelTime(plan.totalMinutes)})</span>
+                                )}
+                            </p>
+                            <p className="text-sm mt-1">{plan.stops.join(' → ')}</p>
+                        </div>
+
+                        <ol className="text-sm space-y-2">
+                            {plan.legs.map((leg, index) => (
+                                <li key={index} className="flex justify-between p-2 bg-gray-800 rounded">
+                                    <span className="text-gray-300">{index + 1}. {leg.from} &rarr; {leg.to}</span>
+                                    <span className="text-gray-400 text-right">
+                                        {leg.info.distance.toLocaleString('en-IN')} km · {leg.info.travelTime}
+                                    </span>
+                                </li>
+                            ))}
+                        </ol>
+
+                        <a
+                            href={buildDirectionsUrl(plan.stops)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="block text-center text-cyan-500 hover:underline text-sm"
+                        >
+                            Open the full route in Google Maps
+                        </a>
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default MultiStopView;
@@ -0,0 +1,63 @@
+import React, { useMemo } from 'react';
+import { summarizeByOrigin } from '../services/resultTable';
+import type { ResultTableRow } from '../services/resultTable';
+import { formatTravelTime } from '../services/travelTime';
+
+const km = (value: number): string => Math.round(value).toLocaleString('en-IN');
+
+const time = (minutes: number | null): string => (minutes === null ? '–' : formatTravelTime(Math.round(minutes)));
+
+interface OriginSummaryTableProps {
+    rows: ResultTableRow[];
+}
+
+/**
+ * Total, mean, median and maximum distance and travel time per origin, for
+ * the rows with a result.
+ */
+const OriginSummaryTable: React.FC<OriginSummaryTableProps> = ({ rows }) => {
+    const summaries = useMemo(() => summarizeByOrigin(rows), [rows]);
+
+    if (summaries.length === 0) {
+        return <p className="text-gray-500 text-center">No calculated rows to summarize.</p>;
+    }
+
+    return (
+        <div className="max-h-72 overflow-auto bg-gray-900/50 rounded-lg">
+            <table className="w-full text-left whitespace-nowrap">
+                <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                    <tr>
+                        <th className="px-2 py-2">Origin</th>
+                        <th className="px-2 py-2 text-right">Rows</th>
+                        <th className="px-2 py-2 text-right">Total km</th>
+                        <th className="px-2 py-2 text-right">Mean km</th>
+                        <th className="px-2 py-2 text-right">Median km</th>
+                        <th className="px-2 py-2 text-right">Max km</th>
+                        <th className="px-2 py-2">Total time</th>
+                        <th className="px-2 py-2">Mean time</th>
+                        <th className="px-2 py-2">Median time</th>
+                        <th className="px-2 py-2">Max time</th>
+                    </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                    {summaries.map(summary => (
+                        <tr key={summary.origin} className="border-t border-gray-800">
+                            <td className="px-2 py-1 font-mono">{summary.origin}</td>
+                            <td className="px-2 py-1 text-right">{summary.count}</td>
+                            <td className="px-2 py-1 text-right">{km(summary.totalDistance)}</td>
+                            <td className="px-2 py-1 text-right">{km(summary.meanDistance)}</td>
+                            <td className="px-2 py-1 text-right">{km(summary.medianDistance)}</td>
+                            <td className="px-2 py-1 text-right">{km(summary.maxDistance)}</td>
+                            <td className="px-2 py-1">{time(summary.totalMinutes)}</td>
+                            <td className="px-2 py-1">{time(summary.meanMinutes)}</td>
+                            <td className="px-2 py-1">{time(summary.medianMinutes)}</td>
+                            <td className="px-2 py-1">{time(summary.maxMinutes)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default OriginSummaryTable;
@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { SAMPLE_RATE_CARD, deleteRateCard, listRateCards, saveRateCard, validateRateCard } from '../services/rateCards';
+import { VEHICLES } from '../services/routeOptions';
+import type { RateCard, RateSlab, VehicleType } from '../types';
+
+type Draft = Omit<RateCard, 'id'> & { id?: string };
+
+const inputClass = 'mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none';
+
+const RateCardPanel: React.FC = () => {
+    const [cards, setCards] = useState<RateCard[]>([]);
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setCards(await listRateCards());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read the rate cards.');
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const update = (changes: Partial<Draft>) => setDraft(current => (current ? { ...current, ...changes } : current));
+
+    const updateSlab = (index: number, changes: Partial<RateSlab>) => {
+        if (!draft) return;
+        update({ slabs: draft.slabs.map((slab, i) => (i === index ? { ...slab, ...changes } : slab)) });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        setError(null);
+        try {
+            await saveRateCard(draft);
+            setDraft(null);
+            await refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the rate card.');
+        }
+    };
+
+    const handleDelete = async (card: RateCard) => {
+        if (!window.confirm(`Delete the rate card "${card.name}"?`)) return;
+        await deleteRateCard(card.id);
+        await refresh();
+    };
+
+    const draftError = draft ? validateRateCard(draft) : null;
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-cyan-400">Rate cards</h2>
+                {!draft && (
+                    <button
+                        onClick={() => setDraft({ ...SAMPLE_RATE_CARD, name: cards.length === 0 ? SAMPLE_RATE_CARD.name : '' })}
+                        className="text-cyan-500 hover:underline"
+                    >
+                        New rate card
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
+                    <p>{error}</p>
+                </div>
+            )}
+
+            {!draft && (
+                cards.length === 0 ? (
+                    <p className="text-gray-500 text-center p-4">
+                        No rate cards yet. Add one to see delivery charges with each result.
+                    </p>
+                ) : (
+                    <ul className="bg-gray-900/50 rounded-lg divide-y divide-gray-800">
+                        {cards.map(card => (
+                            <li key={card.id} className="flex items-center justify-between px-3 py-2">
+                                <span className="text-gray-300">{card.name}</span>
+                                <span className="space-x-3">
+                                    <button onClick={() => setDraft(card)} className="text-cyan-500 hover:underline">Edit</button>
+                                    <button onClick={() => handleDelete(card)} className="text-red-400 hover:underline">Delete</button>
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )
+            )}
+
+            {draft && (
+                <div className="bg-gray-900/50 rounded-lg p-3 space-y-3 text-gray-300">
+                    <label className="block">
+                        Name
+                        <input type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label>
+                            Base fare (₹)
+                            <input type="number" min={0} value={draft.baseFare} onChange={(e) => update({ baseFare: Number(e.target.value) })} className={inputClass} />
+                        </label>
+                        <label>
+                            Minimum charge (₹)
+                            <input type="number" min={0} value={draft.minimumCharge} onChange={(e) => update({ minimumCharge: Number(e.target.value) })} className={inputClass} />
+                        </label>
+                        <label>
+                            Fuel surcharge (%)
+                            <input type="number" min={0} value={draft.fuelSurchargePercent} onChange={(e) => update({ fuelSurchargePercent: Number(e.target.value) })} className={inputClass} />
+                        </label>
+                        <label>
+                            GST (%)
+                            <input type="number" min={0} value={draft.gstPercent} onChange={(e) => update({ gstPercent: Number(e.target.value) })} className={inputClass} />
+                        </label>
+                    </div>
+
+                    <fieldset className="space-y-2">
+                        <legend className="text-gray-400">Per-km slabs</legend>
+                        {draft.slabs.map((slab, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                                <span className="w-12 text-gray-400">{index === 0 ? 'First' : 'Then'}</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={slab.upTo ?? ''}
+                                    placeholder="any"
+                                    aria-label={`Slab ${index + 1} upper limit in km`}
+                                    onChange={(e) => updateSlab(index, { upTo: e.target.value === '' ? null : Number(e.target.value) })}
+                                    className={inputClass}
+                                />
+                                <span className="text-gray-400 whitespace-nowrap">km at ₹</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.5"
+                                    value={slab.rate}
+                                    aria-label={`Slab ${index + 1} rate per km`}
+                                    onChange={(e) => updateSlab(index, { rate: Number(e.target.value) })}
+                                    className={inputClass}
+                                />
+                                <span className="text-gray-400">/km</span>
+                                <button
+                                    onClick={() => update({ slabs: draft.slabs.filter((_, i) => i !== index) })}
+                                    className="text-red-400 hover:underline"
+                                    aria-label={`Remove slab ${index + 1}`}
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                        <button
+                            onClick={() => update({ slabs: [...draft.slabs, { upTo: null, rate: draft.slabs[draft.slabs.length - 1]?.rate ?? 0 }] })}
+                            className="text-cyan-500 hover:underline"
+                        >
+                            Add slab
+                        </button>
+                        <p className="text-xs text-gray-500">
+                            Each band is charged at its own rate. Leave the last limit blank to cover any distance.
+                        </p>
+                    </fieldset>
+
+                    <fieldset className="grid grid-cols-2 gap-3">
+                        <legend className="text-gray-400 col-span-2">Vehicle rates (× slab rate)</legend>
+                        {(Object.keys(VEHICLES) as VehicleType[]).map(vehicle => (
+                            <label key={vehicle}>
+                                {VEHICLES[vehicle].label}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step="0.1"
+                                    value={draft.vehicleMultipliers[vehicle]}
+                                    onChange={(e) => update({ vehicleMultipliers: { ...draft.vehicleMultipliers, [vehicle]: Number(e.target.value) } })}
+                                    className={inputClass}
+                                />
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    {draftError && <p className="text-red-400">{draftError}</p>}
+                    <div className="flex space-x-3">
+                        <button
+                            onClick={handleSave}
+                            disabled={!!draftError}
+                            className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-2 px-4 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Save
+                        </button>
+                        <button
+                            onClick={() => { setDraft(null); setError(null); }}
+                            className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default RateCardPanel;
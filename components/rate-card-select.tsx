@@ -0,0 +1,48 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { listRateCards } from '../services/rateCards';
+import type { RateCard } from '../types';
+
+interface RateCardSelectProps {
+    value: RateCard | null;
+    onChange: (card: RateCard | null) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Picks the rate card to price results with. Hidden until a card has been
+ * added in the "Rate cards" panel.
+ */
+const RateCardSelect: React.FC<RateCardSelectProps> = ({ value, onChange, disabled = false }) => {
+    const [cards, setCards] = useState<RateCard[]>([]);
+
+    // Re-read on focus so cards edited in the panel show up.
+    const refresh = useCallback(() => {
+        listRateCards()
+            .then(setCards)
+            .catch(err => console.error('Could not read the rate cards:', err));
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    if (cards.length === 0 && !value) return null;
+
+    return (
+        <label className="block text-sm text-gray-300">
+            Rate card
+            <select
+                value={value?.id ?? ''}
+                onFocus={refresh}
+                onChange={(e) => onChange(cards.find(card => card.id === e.target.value) ?? null)}
+                disabled={disabled}
+                className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+            >
+                <option value="">None (no charges)</option>
+                {cards.map(card => <option key={card.id} value={card.id}>{card.name}</option>)}
+            </select>
+        </label>
+    );
+};
+
+export default RateCardSelect;
@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { clearRouteCache, exportRouteCache, importRouteCache, isFresh, listCachedRoutes } from '../services/routeCache';
+import { downloadBlob } from '../services/download';
+import { formatAge } from '../services/relativeTime';
+import type { RouteCacheEntry } from '../types';
+
+const RouteCachePanel: React.FC = () => {
+    const [entries, setEntries] = useState<RouteCacheEntry[]>([]);
+    const [query, setQuery] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const importRef = useRef<HTMLInputElement>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const all = await listCachedRoutes();
+            setEntries(all.sort((a, b) => b.cachedAt - a.cachedAt));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read the route cache.');
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleExport = async () => {
+        const json = await exportRouteCache();
+        downloadBlob(new Blob([json], { type: 'application/json;charset=utf-8;' }), 'route_cache.json');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        setMessage(null);
+        try {
+            const imported = await importRouteCache(await file.text());
+            setMessage(`Imported ${imported} ${imported === 1 ? 'entry' : 'entries'}.`);
+            await refresh();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not import the file.');
+        }
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Remove every cached route?')) return;
+        await clearRouteCache();
+        setMessage('Route cache cleared.');
+        await refresh();
+    };
+
+    const needle = query.trim().toLowerCase();
+    const visible = needle
+        ? entries.filter(e => `${e.origin} ${e.destination} ${e.provider}`.toLowerCase().includes(needle))
+        : entries;
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-cyan-400">Route cache</h2>
+                <span className="text-gray-400">{entries.length} entries</span>
+            </div>
+
+            <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Filter by origin, destination or provider"
+                className="w-full px-3 py-2 bg-gray-700 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 outline-none"
+            />
+
+            <div className="max-h-60 overflow-y-auto bg-gray-900/50 rounded-lg">
+                {visible.length === 0 ? (
+                    <p className="text-gray-500 text-center p-4">No cached routes.</p>
+                ) : (
+                    <table className="w-full text-left">
+                        <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                            <tr>
+                                <th className="p-2">Route</th>
+                                <th className="p-2">Distance</th>
+                                <th className="p-2">Provider</th>
+                                <th className="p-2">Cached</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visible.map(entry => (
+                                <tr key={entry.key} className={`border-t border-gray-800 ${isFresh(entry) ? 'text-gray-300' : 'text-gray-600'}`}>
+                                    <td className="p-2">{entry.origin} &rarr; {entry.destination}</td>
+                                    <td className="p-2">{entry.info.distance.toLocaleString('en-IN')} km</td>
+                                    <td className="p-2">{entry.provider}</td>
+                                    <td className="p-2">{formatAge(entry.cachedAt)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {message && <p className="text-green-400">{message}</p>}
+            {error && <p className="text-red-400">{error}</p>}
+
+            <div className="flex space-x-3">
+                <button onClick={handleExport} disabled={entries.length === 0} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed">
+                    Export
+                </button>
+                <button onClick={() => importRef.current?.click()} className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-md transition">
+                    Import
+                </button>
+                <button onClick={handleClear} disabled={entries.length === 0} className="bg-red-700 hover:bg-red-800 text-white font-bold py-2 px-4 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed">
+                    Clear
+                </button>
+                <input ref={importRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            </div>
+        </div>
+    );
+};
+
+export default RouteCachePanel;
@@ -0,0 +1,125 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { MapSegment } from '../types';
+
+/** OpenStreetMap unless MAP_TILE_URL points at another (e.g. locally served) tile set. */
+const TILE_URL = process.env.MAP_TILE_URL || 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png';
+const TILE_ATTRIBUTION = '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+/** Failed tile loads tolerated before falling back to blank tiles. */
+const MAX_TILE_ERRORS = 4;
+
+const INDIA_CENTER: L.LatLngExpression = [22.5, 79];
+const INDIA_ZOOM = 4;
+
+/** Plain grid tiles, used when no map tiles can be loaded (e.g. offline). */
+class BlankTiles extends L.GridLayer {
+    protected createTile(): HTMLElement {
+        const tile = document.createElement('div');
+        tile.style.background = '#1f2937';
+        tile.style.outline = '1px solid #374151';
+        return tile;
+    }
+}
+
+/** Popup body, built from DOM nodes so input values are never parsed as HTML. */
+const popupContent = (segment: MapSegment): HTMLElement => {
+    const container = document.createElement('div');
+    const title = document.createElement('p');
+    title.style.fontWeight = '600';
+    title.textContent = `${segment.origin.label} → ${segment.destination.label}`;
+    container.appendChild(title);
+    for (const [label, value] of segment.details) {
+        const line = document.createElement('div');
+        const name = document.createElement('span');
+        name.style.color = '#6b7280';
+        name.textContent = `${label}: `;
+        line.append(name, value);
+        container.appendChild(line);
+    }
+    return container;
+};
+
+interface RouteMapProps {
+    segments: MapSegment[];
+}
+
+/**
+ * Leaflet map drawing each segment as a straight line from a filled origin
+ * marker to a hollow destination marker. Clicking either shows its details.
+ */
+const RouteMap: React.FC<RouteMapProps> = ({ segments }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const mapRef = useRef<L.Map | null>(null);
+    const layerRef = useRef<L.LayerGroup | null>(null);
+    const [tilesUnavailable, setTilesUnavailable] = useState(false);
+
+    useEffect(() => {
+        if (!containerRef.current) return;
+        // Canvas rendering keeps thousands of bulk markers responsive.
+        const map = L.map(containerRef.current, { preferCanvas: true }).setView(INDIA_CENTER, INDIA_ZOOM);
+        const showBlankTiles = () => {
+            setTilesUnavailable(true);
+            new BlankTiles().addTo(map);
+        };
+
+        if (/^https?:/.test(TILE_URL) && !navigator.onLine) {
+            showBlankTiles();
+        } else {
+            const tiles = L.tileLayer(TILE_URL, { attribution: TILE_ATTRIBUTION, maxZoom: 18 });
+            let failures = 0;
+            tiles.on('tileerror', () => {
+                failures++;
+                if (failures === MAX_TILE_ERRORS) {
+                    map.removeLayer(tiles);
+                    showBlankTiles();
+                }
+            });
+            tiles.addTo(map);
+        }
+
+        mapRef.current = map;
+        layerRef.current = L.layerGroup().addTo(map);
+        return () => {
+            map.remove();
+            mapRef.current = null;
+            layerRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        const map = mapRef.current;
+        const layer = layerRef.current;
+        if (!map || !layer) return;
+        layer.clearLayers();
+
+        const bounds = L.latLngBounds([]);
+        for (const segment of segments) {
+            const from: L.LatLngTuple = [segment.origin.coordinates.latitude, segment.origin.coordinates.longitude];
+            const to: L.LatLngTuple = [segment.destination.coordinates.latitude, segment.destination.coordinates.longitude];
+            const popup = () => popupContent(segment);
+            L.polyline([from, to], { color: segment.color, weight: 2, opacity: 0.7 }).bindPopup(popup).addTo(layer);
+            L.circleMarker(from, { radius: 5, color: segment.color, fillColor: segment.color, fillOpacity: 1 }).bindPopup(popup).addTo(layer);
+            L.circleMarker(to, { radius: 5, color: segment.color, fillColor: '#ffffff', fillOpacity: 1 }).bindPopup(popup).addTo(layer);
+            bounds.extend(from).extend(to);
+        }
+
+        if (bounds.isValid()) {
+            map.fitBounds(bounds, { padding: [24, 24], maxZoom: 10 });
+        } else {
+            map.setView(INDIA_CENTER, INDIA_ZOOM);
+        }
+    }, [segments]);
+
+    return (
+        <div>
+            <div ref={containerRef} className="h-72 w-full rounded-lg overflow-hidden border border-gray-700 text-gray-900" />
+            {tilesUnavailable && (
+                <p className="text-xs text-gray-500 mt-1">Map tiles could not be loaded, so the map shows a plain background.</p>
+            )}
+        </div>
+    );
+};
+
+export default RouteMap;
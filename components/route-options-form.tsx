@@ -0,0 +1,51 @@
+import React from 'react';
+import { VEHICLES } from '../services/routeOptions';
+import type { RouteOptions, VehicleType } from '../types';
+
+interface RouteOptionsFormProps {
+    options: RouteOptions;
+    onChange: (options: RouteOptions) => void;
+    disabled?: boolean;
+}
+
+const RouteOptionsForm: React.FC<RouteOptionsFormProps> = ({ options, onChange, disabled = false }) => {
+    const update = (changes: Partial<RouteOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm text-gray-300">
+            <label>
+                Vehicle
+                <select
+                    value={options.vehicle}
+                    onChange={(e) => update({ vehicle: e.target.value as VehicleType })}
+                    disabled={disabled}
+                    className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+                >
+                    {(Object.keys(VEHICLES) as VehicleType[]).map(vehicle => (
+                        <option key={vehicle} value={vehicle}>{VEHICLES[vehicle].label}</option>
+                    ))}
+                </select>
+            </label>
+            <label>
+                Departure (optional)
+                <input
+                    type="datetime-local"
+                    value={options.departureTime}
+                    onChange={(e) => update({ departureTime: e.target.value })}
+                    disabled={disabled}
+                    className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+                />
+            </label>
+            <label className="flex items-center space-x-2">
+                <input type="checkbox" checked={options.avoidTolls} onChange={(e) => update({ avoidTolls: e.target.checked })} disabled={disabled} />
+                <span>Avoid tolls</span>
+            </label>
+            <label className="flex items-center space-x-2">
+                <input type="checkbox" checked={options.avoidHighways} onChange={(e) => update({ avoidHighways: e.target.checked })} disabled={disabled} />
+                <span>Avoid highways</span>
+            </label>
+        </div>
+    );
+};
+
+export default RouteOptionsForm;
@@ -0,0 +1,223 @@
+import React, { useState, useRef } from 'react';
+import { DEFAULT_BULK_SETTINGS } from '../services/bulkProcessor';
+import { toCsv } from '../services/csv';
+import { downloadBlob } from '../services/download';
+import { ConfigurationError } from '../services/errors';
+import { JobController } from '../services/jobRunner';
+import { DEFAULT_ROUTE_OPTIONS } from '../services/routeOptions';
+import { MAX_SHORTLIST, findServiceArea, serviceAreaToTable } from '../services/serviceArea';
+import { withinBudget } from '../services/usage';
+import type { RouteOptions, ServiceAreaLimit, ServiceAreaResult } from '../types';
+import LocationInput from './location-input';
+import RouteOptionsForm from './route-options-form';
+import LoadingSpinner from './ui/loading-spinner';
+
+const LIMIT_UNITS: Record<ServiceAreaLimit['kind'], string> = {
+    distance: 'km',
+    time: 'minutes',
+};
+
+const describeLimit = ({ kind, value }: ServiceAreaLimit): string =>
+    `${value.toLocaleString('en-IN')} ${LIMIT_UNITS[kind]}${kind === 'time' ? ' of driving' : ' by road'}`;
+
+const ServiceAreaView: React.FC = () => {
+    const [origin, setOrigin] = useState('');
+    const [limitKind, setLimitKind] = useState<ServiceAreaLimit['kind']>('distance');
+    const [limitValue, setLimitValue] = useState('50');
+    const [routeOptions, setRouteOptions] = useState<RouteOptions>(DEFAULT_ROUTE_OPTIONS);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const [progress, setProgress] = useState({ processed: 0, total: 0 });
+    const [error, setError] = useState<string | null>(null);
+    const [result, setResult] = useState<ServiceAreaResult | null>(null);
+    const controllerRef = useRef<JobController | null>(null);
+
+    const handleSearch = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setResult(null);
+        setProgress({ processed: 0, total: 0 });
+        setIsProcessing(true);
+        const controller = new JobController();
+        controllerRef.current = controller;
+
+        try {
+            const limit: ServiceAreaLimit = { kind: limitKind, value: Number(limitValue) };
+            const label = `Within ${limitValue} ${limitKind === 'distance' ? 'km' : 'min'} of ${origin.trim()}`;
+            setResult(await withinBudget({ kind: 'service-area', label }, async spending => {
+                const area = await findServiceArea(
+                    origin,
+                    limit,
+                    routeOptions,
+                    DEFAULT_BULK_SETTINGS,
+                    (processed, total) => setProgress({ processed, total }),
+                    controller,
+                );
+                spending.add(area.usage);
+                return area;
+            }));
+        } catch (err) {
+            if (err instanceof ConfigurationError) {
+                setError("Processing stopped due to an API configuration issue.");
+            } else {
+                setError(err instanceof Error ? err.message : 'An unexpected error occurred. Please try again.');
+            }
+        } finally {
+            controllerRef.current = null;
+            setIsProcessing(false);
+        }
+    };
+
+    const handleDownload = () => {
+        if (!result) return;
+        downloadBlob(
+            new Blob([toCsv(serviceAreaToTable(result))], { type: 'text/csv;charset=utf-8;' }),
+            `service_area_${result.origin.pinCode}.csv`,
+        );
+    };
+
+    const handleClear = () => {
+        setOrigin('');
+        setError(null);
+        setResult(null);
+        setProgress({ processed: 0, total: 0 });
+    };
+
+    return (
+        <>
+            <form onSubmit={handleSearch} className="space-y-4">
+                <LocationInput
+                    id="service-area-origin"
+                    label="Origin (e.g., 400001)"
+                    value={origin}
+                    onChange={setOrigin}
+                    error={null}
+                    disabled={isProcessing}
+                />
+
+                <div className="flex items-end space-x-3 text-sm text-gray-300">
+                    <label className="flex-grow">
+                        Within
+                        <input
+                            type="number"
+                            min={1}
+                            value={limitValue}
+                            onChange={(e) => setLimitValue(e.target.value)}
+                            disabled={isProcessing}
+                            className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+                        />
+                    </label>
+                    <select
+                        value={limitKind}
+                        onChange={(e) => setLimitKind(e.target.value as ServiceAreaLimit['kind'])}
+                        disabled={isProcessing}
+                        aria-label="Limit"
+                        className="px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+                    >
+                        <option value="distance">km by road</option>
+                        <option value="time">minutes of driving</option>
+                    </select>
+                </div>
+
+                <RouteOptionsForm options={routeOptions} onChange={setRouteOptions} disabled={isProcessing} />
+
+                <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-2 sm:space-y-0 pt-2">
+                    <button
+                        type="submit"
+                        disabled={isProcessing || !origin.trim()}
+                        className="flex-grow w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isProcessing ? <LoadingSpinner /> : null}
+                        {isProcessing ? `Searching... (${progress.processed}/${progress.total})` : 'Find Service Area'}
+                    </button>
+                    {isProcessing ? (
+                        <button
+                            type="button"
+                            onClick={() => controllerRef.current?.cancel()}
+                            className="w-full sm:w-auto bg-red-700 hover:bg-red-800 text-white font-bold py-3 px-6 rounded-md transition duration-300"
+                        >
+                            Cancel
+                        </button>
+                    ) : (
+                        <button
+                            type="button"
+                            onClick={handleClear}
+                            className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+            </form>
+
+            <div className="pt-4 min-h-[6rem]">
+                {error && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
+                        <p>{error}</p>
+                    </div>
+                )}
+                {result && (
+                    <div className="space-y-3">
+                        <p className="text-sm text-gray-300">
+                            {result.places.length === 0 ? 'No' : result.places.length.toLocaleString('en-IN')}
+                            {result.places.length === 1 ? ' place' : ' places'} within {describeLimit(result.limit)} of{' '}
+                            <span className="font-semibold">{result.origin.officeName} ({result.origin.pinCode})</span>.
+                        </p>
+                        {(result.notChecked > 0 || result.failed.length > 0) && (
+                            <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-md text-sm space-y-1">
+                                {result.notChecked > 0 && (
+                                    <p>
+                                        {result.notChecked.toLocaleString('en-IN')} nearby pin codes were not checked by road, so the list may be incomplete.
+                                        A search checks at most the nearest {MAX_SHORTLIST}, and stops early when cancelled.
+                                    </p>
+                                )}
+                                {result.failed.length > 0 && (
+                                    <p title={result.failed.map(p => `${p.record.pinCode}: ${p.error}`).join('\n')}>
+                                        {result.failed.length} lookups failed: {result.failed.map(p => p.record.pinCode).join(', ')}.
+                                    </p>
+                                )}
+                            </div>
+                        )}
+                        {result.places.length > 0 && (
+                            <>
+                                <div className="overflow-auto max-h-96 bg-gray-900/50 rounded-lg">
+                                    <table className="w-full text-sm text-left">
+                                        <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                                            <tr>
+                                                <th className="p-2">Pin code</th>
+                                                <th className="p-2">Place</th>
+                                                <th className="p-2 text-right">Distance</th>
+                                                <th className="p-2 text-right">Time</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody>
+                                            {result.places.map(({ record, straightLineKm, info }) => (
+                                                <tr key={record.pinCode} className="border-t border-gray-800 text-gray-300">
+                                                    <td className="p-2 whitespace-nowrap">{record.pinCode}</td>
+                                                    <td className="p-2">
+                                                        {record.officeName}
+                                                        <span className="text-gray-500">, {record.district}, {record.state}</span>
+                                                    </td>
+                                                    <td className="p-2 text-right whitespace-nowrap" title={`${Math.round(straightLineKm)} km straight line`}>
+                                                        {info!.distance.toLocaleString('en-IN')} km
+                                                    </td>
+                                                    <td className="p-2 text-right whitespace-nowrap">{info!.travelTime}</td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                                <div className="text-center">
+                                    <button onClick={handleDownload} className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-6 rounded-md transition">
+                                        Download Service Area CSV
+                                    </button>
+                                </div>
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default ServiceAreaView;
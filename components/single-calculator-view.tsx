@@ -0,0 +1,363 @@
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { getDrivingInfoCached } from '../services/routeCache';
+import { deepLinkUrl } from '../services/deepLink';
+import { ConfigurationError } from '../services/errors';
+import { addHistoryEntry } from '../services/history';
+import { parseLocation, validateLocation } from '../services/location';
+import { singleRouteSegment } from '../services/mapData';
+import { checkPlaceName, placeLabel } from '../services/placeSearch';
+import type { PlaceCheck } from '../services/placeSearch';
+import { calculateCost, formatRupees } from '../services/rateCards';
+import { buildDirectionsUrl } from '../services/routePlanner';
+import { DEFAULT_ROUTE_OPTIONS, describeRouteOptions } from '../services/routeOptions';
+import { getActiveProvider } from '../services/routingService';
+import { formatTokens, formatUsd, totalTokens, usageCost, withinBudget } from '../services/usage';
+import { isSuspicious } from '../services/validation';
+import type { DrivingInfo, RateCard, RouteOptions, SingleRequest } from '../types';
+import LocationInput from './location-input';
+import RouteMap from './route-map';
+import RateCardSelect from './rate-card-select';
+import RouteOptionsForm from './route-options-form';
+import LoadingSpinner from './ui/loading-spinner';
+
+/**
+ * Errors shown while typing. Pin codes and coordinates are only checked on
+ * submit, since they are invalid until fully typed.
+ */
+const liveLocationError = (value: string): string | null => {
+    const location = parseLocation(value);
+    return value.trim() && location.kind === 'place' ? validateLocation(location) : null;
+};
+
+type Field = 'origin' | 'destination';
+
+/** A place name that needs the user's confirmation before routing. */
+type PlacePrompt = { field: Field; value: string; check: Exclude<PlaceCheck, { status: 'ok' }> };
+
+interface SingleCalculatorViewProps {
+    /** When set (e.g. a re-run from the history or a link), fills in the form and calculates. */
+    request?: SingleRequest | null;
+    /** False to only fill in the form from `request`. */
+    autoRun?: boolean;
+    /** Called with each successfully calculated pair, e.g. to update the URL. */
+    onCalculated?: (request: SingleRequest) => void;
+}
+
+const SingleCalculatorView: React.FC<SingleCalculatorViewProps> = ({ request, autoRun = true, onCalculated }) => {
+    const [origin, setOrigin] = useState('');
+    const [destination, setDestination] = useState('');
+    const [routeOptions, setRouteOptions] = useState<RouteOptions>(DEFAULT_ROUTE_OPTIONS);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [originError, setOriginError] = useState<string | null>(null);
+    const [destinationError, setDestinationError] = useState<string | null>(null);
+    const [result, setResult] = useState<DrivingInfo | null>(null);
+    const [fromCache, setFromCache] = useState(false);
+    const [directionsUrl, setDirectionsUrl] = useState<string | null>(null);
+    const [placePrompt, setPlacePrompt] = useState<PlacePrompt | null>(null);
+    // The pair behind `result`, for sharing even after the fields are edited.
+    const [calculatedRequest, setCalculatedRequest] = useState<SingleRequest | null>(null);
+    const [linkCopied, setLinkCopied] = useState(false);
+    const [rateCard, setRateCard] = useState<RateCard | null>(null);
+    // Names the user chose to keep despite a prompt.
+    const acceptedPlacesRef = useRef(new Set<string>());
+    // Kept in a ref so `calculate` stays stable across renders.
+    const onCalculatedRef = useRef(onCalculated);
+    onCalculatedRef.current = onCalculated;
+
+    const calculate = useCallback(async (originValue: string, destinationValue: string, options: RouteOptions) => {
+        // Run full validation on submit
+        const finalOriginError = validateLocation(parseLocation(originValue));
+        const finalDestError = validateLocation(parseLocation(destinationValue));
+        setOriginError(finalOriginError);
+        setDestinationError(finalDestError);
+        if (finalOriginError || finalDestError) {
+            return;
+        }
+
+        // Ambiguous or unrecognised place names are confirmed before routing.
+        for (const [field, value] of [['origin', originValue], ['destination', destinationValue]] as Array<[Field, string]>) {
+            if (parseLocation(value).kind !== 'place' || acceptedPlacesRef.current.has(value.trim())) continue;
+            const check = checkPlaceName(value);
+            if (check.status !== 'ok') {
+                setPlacePrompt({ field, value: value.trim(), check });
+                return;
+            }
+        }
+        setPlacePrompt(null);
+
+        setIsLoading(true);
+        setError(null);
+        setResult(null);
+        setDirectionsUrl(null);
+        setLinkCopied(false);
+
+        try {
+            const label = `${originValue.trim()} → ${destinationValue.trim()}`;
+            const { info: drivingInfo, fromCache: cached } = await withinBudget({ kind: 'single', label }, async spending => {
+                const lookup = await getDrivingInfoCached(originValue, destinationValue, options);
+                spending.add(lookup.info.usage);
+                return lookup;
+            });
+            
+            setResult(drivingInfo);
+            setFromCache(cached);
+            setDirectionsUrl(buildDirectionsUrl([originValue, destinationValue]));
+
+            const calculated: SingleRequest = { origin: originValue.trim(), destination: destinationValue.trim(), options };
+            setCalculatedRequest(calculated);
+            onCalculatedRef.current?.(calculated);
+
+            addHistoryEntry({
+                kind: 'single',
+                ...calculated,
+                provider: getActiveProvider().id,
+                info: drivingInfo,
+                fromCache: cached,
+            }).catch(err => console.error('Could not save to history:', err));
+
+        } catch (err) {
+            if (err instanceof ConfigurationError) {
+                setError("There is an issue with the API configuration. Please try again later.");
+            } else if (err instanceof Error) {
+                setError(err.message);
+            } else {
+                setError('An unexpected error occurred. Please try again.');
+            }
+            console.error(err);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!request) return;
+        setOrigin(request.origin);
+        setDestination(request.destination);
+        setRouteOptions(request.options);
+        if (autoRun) {
+            calculate(request.origin, request.destination, request.options);
+        }
+    }, [request, autoRun, calculate]);
+
+    const handleCalculate = (e: React.FormEvent) => {
+        e.preventDefault();
+        calculate(origin, destination, routeOptions);
+    };
+
+    /** Replaces the prompted name with the chosen place and carries on. */
+    const handleChoosePlace = (label: string) => {
+        if (!placePrompt) return;
+        if (placePrompt.field === 'origin') {
+            setOrigin(label);
+            calculate(label, destination, routeOptions);
+        } else {
+            setDestination(label);
+            calculate(origin, label, routeOptions);
+        }
+    };
+
+    /** Sends the prompted name to the provider exactly as typed. */
+    const handleKeepAsTyped = () => {
+        if (!placePrompt) return;
+        acceptedPlacesRef.current.add(placePrompt.value);
+        calculate(origin, destination, routeOptions);
+    };
+
+    const mapSegments = useMemo(() => {
+        const segment = result && calculatedRequest
+            ? singleRouteSegment(calculatedRequest.origin, calculatedRequest.destination, result)
+            : null;
+        return segment ? [segment] : [];
+    }, [result, calculatedRequest]);
+
+    const cost = result && rateCard ? calculateCost(result, rateCard) : null;
+
+    const handleCopyLink = async () => {
+        if (!calculatedRequest) return;
+        try {
+            await navigator.clipboard.writeText(deepLinkUrl('single', calculatedRequest));
+            setLinkCopied(true);
+        } catch (err) {
+            console.error('Could not copy the link:', err);
+        }
+    };
+
+    const handleClear = useCallback(() => {
+        setOrigin('');
+        setDestination('');
+        setError(null);
+        setResult(null);
+        setDirectionsUrl(null);
+        setOriginError(null);
+        setDestinationError(null);
+        setPlacePrompt(null);
+    }, []);
+
+    const handleOriginChange = (value: string) => {
+        setOrigin(value);
+        setPlacePrompt(null);
+        setOriginError(liveLocationError(value));
+    };
+
+    const handleDestinationChange = (value: string) => {
+        setDestination(value);
+        setPlacePrompt(null);
+        setDestinationError(liveLocationError(value));
+    };
+
+    return (
+        <>
+            <form onSubmit={handleCalculate} className="space-y-4">
+                <LocationInput
+                    id="origin"
+                    label="Origin (e.g., 400001)"
+                    value={origin}
+                    onChange={handleOriginChange}
+                    error={originError}
+                    disabled={isLoading}
+                />
+
+                <LocationInput
+                    id="destination"
+                    label="Destination (e.g., Pune)"
+                    value={destination}
+                    onChange={handleDestinationChange}
+                    error={destinationError}
+                    disabled={isLoading}
+                />
+
+                <RouteOptionsForm options={routeOptions} onChange={setRouteOptions} disabled={isLoading} />
+                <RateCardSelect value={rateCard} onChange={setRateCard} />
+                
+                <div className="flex flex-col sm:flex-row sm:space-x-4 space-y-2 sm:space-y-0 pt-2">
+                    <button
+                        type="submit"
+                        disabled={isLoading || !!originError || !!destinationError}
+                        className="flex-grow w-full flex items-center justify-center bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-3 px-4 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {isLoading ? <LoadingSpinner /> : null}
+                        {isLoading ? 'Calculating...' : 'Calculate Distance'}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleClear}
+                        disabled={isLoading}
+                        className="w-full sm:w-auto bg-gray-600 hover:bg-gray-700 text-white font-bold py-3 px-6 rounded-md transition duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Clear
+                    </button>
+                </div>
+            </form>
+
+            <div className="pt-4 min-h-[6rem]">
+                {placePrompt && (
+                    <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-md text-sm mb-4">
+                        <p>
+                            {placePrompt.check.status === 'ambiguous'
+                                ? `"${placePrompt.value}" matches places in more than one state. Which one do you mean?`
+                                : `"${placePrompt.value}" isn't in our place list. Did you mean:`}
+                        </p>
+                        <div className="flex flex-wrap gap-2 mt-2">
+                            {(placePrompt.check.status === 'ambiguous' ? placePrompt.check.candidates : placePrompt.check.suggestions).map(place => (
+                                <button
+                                    key={placeLabel(place)}
+                                    type="button"
+                                    onClick={() => handleChoosePlace(placeLabel(place))}
+                                    className="bg-yellow-600 hover:bg-yellow-700 text-white font-bold py-1 px-3 rounded-md transition"
+                                >
+                                    {placeLabel(place)}
+                                </button>
+                            ))}
+                            {placePrompt.check.status === 'unknown' && (
+                                <button
+                                    type="button"
+                                    onClick={handleKeepAsTyped}
+                                    className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-1 px-3 rounded-md transition"
+                                >
+                                    Use "{placePrompt.value}" as typed
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                )}
+                {error && (
+                    <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-center">
+                        <p>{error}</p>
+                    </div>
+                )}
+                {result && !error && (
+                    <div className="bg-gray-900/50 border border-gray-700 p-4 rounded-lg">
+                        {directionsUrl && (
+                            <div className="mb-4">
+                                <a
+                                    href={directionsUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center w-full p-3 bg-gray-700/50 border border-gray-600 rounded-lg hover:bg-gray-700 transition-colors"
+                                    aria-label={`Open map directions from ${origin} to ${destination} in a new tab`}
+                                >
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-3 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                                    </svg>
+                                    <span className="text-white">Map from {origin} to {destination}</span>
+                                </a>
+                            </div>
+                        )}
+                        <div className="text-left text-gray-300">
+                            <p className="text-xl font-bold text-green-400">{result.travelTime}
+                            <span className="text-gray-400 font-normal"> ({result.distance.toLocaleString('en-IN')} km)</span></p>
+                            <p className="text-sm mt-1">{result.routeSummary}</p>
+                            {result.options && <p className="text-xs text-gray-400 mt-1">{describeRouteOptions(result.options)}</p>}
+                            {cost && (
+                                <div className="mt-3 pt-3 border-t border-gray-700 text-sm">
+                                    <p className="text-lg font-bold text-white">{formatRupees(cost.total)}
+                                    <span className="text-gray-400 font-normal text-sm"> estimated charge ({cost.rateCard})</span></p>
+                                    <dl className="grid grid-cols-2 gap-x-4 text-gray-400 mt-1">
+                                        {cost.minimumApplied ? (
+                                            <><dt>Minimum charge</dt><dd className="text-right">{formatRupees(cost.subtotal)}</dd></>
+                                        ) : (
+                                            <>
+                                                <dt>Base fare</dt><dd className="text-right">{formatRupees(cost.baseFare)}</dd>
+                                                <dt>Distance charge</dt><dd className="text-right">{formatRupees(cost.distanceCharge)}</dd>
+                                            </>
+                                        )}
+                                        <dt>Fuel surcharge</dt><dd className="text-right">{formatRupees(cost.fuelSurcharge)}</dd>
+                                        <dt>GST</dt><dd className="text-right">{formatRupees(cost.gst)}</dd>
+                                    </dl>
+                                </div>
+                            )}
+                            {fromCache && <p className="text-xs text-gray-500 mt-2">Served from the route cache.</p>}
+                            {result.usage && (
+                                <p className="text-xs text-gray-500 mt-2">
+                                    {formatTokens(totalTokens(result.usage))} tokens, about {formatUsd(usageCost(result.usage))}.
+                                </p>
+                            )}
+                            <button type="button" onClick={handleCopyLink} className="text-xs text-cyan-500 hover:underline mt-2">
+                                {linkCopied ? 'Link copied' : 'Copy link to this calculation'}
+                            </button>
+                            {isSuspicious(result) && (
+                                <div className="mt-3 p-3 bg-yellow-900/40 border border-yellow-700 rounded-md text-sm text-yellow-300">
+                                    <p className="font-semibold">
+                                        This route looks suspicious
+                                        {result.confidence !== undefined && ` (confidence ${Math.round(result.confidence * 100)}%)`}. Please double-check it.
+                                    </p>
+                                    <ul className="list-disc list-inside mt-1">
+                                        {result.warnings?.map((warning, index) => <li key={index}>{warning}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                        {mapSegments.length > 0 && (
+                            <div className="mt-4">
+                                <RouteMap segments={mapSegments} />
+                            </div>
+                        )}
+                    </div>
+                )}
+            </div>
+        </>
+    );
+};
+
+export default SingleCalculatorView;
@@ -4,9 +4,11 @@ interface FileUploadProps {
     onFileSelect: (file: File) => void;
     file: File | null;
     disabled?: boolean;
+    /** Value for the file input's accept attribute. */
+    accept?: string;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, file, disabled = false }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, file, disabled = false, accept = '.csv,text/csv' }) => {
     const [isDragging, setIsDragging] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
 
@@ -79,7 +81,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, file, disabled =
                 ref={inputRef}
                 id="csv-upload"
                 type="file"
-                accept=".csv,text/csv"
+                accept={accept}
                 onChange={handleFileChange}
                 className="hidden"
                 disabled={disabled}
@@ -0,0 +1,136 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { formatAge } from '../services/relativeTime';
+import {
+    TOKEN_PRICES, clearUsageLog, dailyTotals, formatTokens, formatUsd, getDailyBudget, listUsage, setDailyBudget, totalTokens,
+} from '../services/usage';
+import type { UsageLogEntry } from '../types';
+
+/** Recent calculations listed under the daily totals. */
+const RECENT_ENTRIES = 20;
+
+const UsagePanel: React.FC = () => {
+    const [entries, setEntries] = useState<UsageLogEntry[]>([]);
+    const [budgetText, setBudgetText] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            const [log, budget] = await Promise.all([listUsage(), getDailyBudget()]);
+            setEntries(log);
+            setBudgetText(budget === null ? '' : String(budget));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not read the usage log.');
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleSaveBudget = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError(null);
+        setMessage(null);
+        try {
+            const amount = budgetText.trim() === '' ? null : Number(budgetText);
+            await setDailyBudget(amount);
+            setMessage(amount === null ? 'Daily budget removed.' : `Bulk runs now stop once ${formatUsd(amount)} has been spent in a day.`);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the budget.');
+        }
+    };
+
+    const handleClear = async () => {
+        if (!window.confirm('Remove the usage log? Today\'s spend starts again from zero.')) return;
+        await clearUsageLog();
+        setMessage('Usage log cleared.');
+        await refresh();
+    };
+
+    const days = dailyTotals(entries);
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div className="flex items-center justify-between">
+                <h2 className="text-lg font-semibold text-cyan-400">API usage</h2>
+                <span className="text-gray-400">
+                    {formatUsd(TOKEN_PRICES.inputPerMillion)} / {formatUsd(TOKEN_PRICES.outputPerMillion)} per million input / output tokens
+                </span>
+            </div>
+
+            <form onSubmit={handleSaveBudget} className="flex items-end space-x-3 text-gray-300">
+                <label className="flex-grow">
+                    Daily budget (US$)
+                    <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={budgetText}
+                        onChange={(e) => setBudgetText(e.target.value)}
+                        placeholder="No limit"
+                        className="mt-1 w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded-md text-white focus:ring-2 focus:ring-cyan-500 outline-none"
+                    />
+                </label>
+                <button type="submit" className="bg-cyan-600 hover:bg-cyan-700 text-white font-bold py-1 px-4 rounded-md transition">
+                    Save
+                </button>
+            </form>
+
+            <div className="max-h-60 overflow-y-auto bg-gray-900/50 rounded-lg">
+                {days.length === 0 ? (
+                    <p className="text-gray-500 text-center p-4">No API usage recorded yet.</p>
+                ) : (
+                    <table className="w-full text-left">
+                        <thead className="text-gray-400 sticky top-0 bg-gray-900">
+                            <tr>
+                                <th className="p-2">Day</th>
+                                <th className="p-2 text-right">Calls</th>
+                                <th className="p-2 text-right">Tokens</th>
+                                <th className="p-2 text-right">Cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {days.map(day => (
+                                <tr key={day.day} className="border-t border-gray-800 text-gray-300">
+                                    <td className="p-2">{day.day}</td>
+                                    <td className="p-2 text-right">{formatTokens(day.calls)}</td>
+                                    <td className="p-2 text-right" title={`${formatTokens(day.promptTokens)} input, ${formatTokens(day.outputTokens)} output`}>
+                                        {formatTokens(totalTokens(day))}
+                                    </td>
+                                    <td className="p-2 text-right">{formatUsd(day.cost)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            {entries.length > 0 && (
+                <ul className="max-h-40 overflow-y-auto bg-gray-900/50 rounded-lg divide-y divide-gray-800">
+                    {entries.slice(0, RECENT_ENTRIES).map(entry => (
+                        <li key={entry.id} className="flex items-center justify-between px-3 py-2 text-gray-300">
+                            <span className="truncate mr-2" title={entry.label}>
+                                {entry.kind === 'single' ? entry.label : `${entry.label} (${formatTokens(entry.calls)} ${entry.calls === 1 ? 'call' : 'calls'})`}
+                            </span>
+                            <span className="whitespace-nowrap text-gray-400">
+                                {formatUsd(entry.cost)} · {formatAge(entry.createdAt)}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {message && <p className="text-green-400">{message}</p>}
+            {error && <p className="text-red-400">{error}</p>}
+
+            <div className="flex space-x-3">
+                <button onClick={handleClear} disabled={entries.length === 0} className="bg-red-700 hover:bg-red-800 text-white font-bold py-2 px-4 rounded-md transition disabled:opacity-50 disabled:cursor-not-allowed">
+                    Clear log
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default UsagePanel;
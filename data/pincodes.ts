@@ -0,0 +1,158 @@
+/**
+ * Bundled pin code gazetteer: the head post office of major towns in every
+ * postal circle. Coordinates are approximate town centres.
+ *
+ * Columns: pin code, office name, district, state, latitude, longitude.
+ */
+export type PinCodeRow = [string, string, string, string, number, number];
+
+export const PIN_CODE_ROWS: PinCodeRow[] = [
+  // Delhi
+  ['110001', 'New Delhi', 'New Delhi', 'Delhi', 28.6315, 77.2167],
+  ['110006', 'Delhi', 'Central Delhi', 'Delhi', 28.6562, 77.2310],
+  // Haryana
+  ['121001', 'Faridabad', 'Faridabad', 'Haryana', 28.4089, 77.3178],
+  ['122001', 'Gurugram', 'Gurugram', 'Haryana', 28.4595, 77.0266],
+  ['124001', 'Rohtak', 'Rohtak', 'Haryana', 28.8955, 76.6066],
+  ['132001', 'Karnal', 'Karnal', 'Haryana', 29.6857, 76.9905],
+  ['133001', 'Ambala', 'Ambala', 'Haryana', 30.3782, 76.7767],
+  ['125001', 'Hisar', 'Hisar', 'Haryana', 29.1492, 75.7217],
+  // Punjab and Chandigarh
+  ['141001', 'Ludhiana', 'Ludhiana', 'Punjab', 30.9010, 75.8573],
+  ['143001', 'Amritsar', 'Amritsar', 'Punjab', 31.6340, 74.8723],
+  ['144001', 'Jalandhar', 'Jalandhar', 'Punjab', 31.3260, 75.5762],
+  ['147001', 'Patiala', 'Patiala', 'Punjab', 30.3398, 76.3869],
+  ['151001', 'Bathinda', 'Bathinda', 'Punjab', 30.2110, 74.9455],
+  ['160017', 'Chandigarh', 'Chandigarh', 'Chandigarh', 30.7333, 76.7794],
+  // Himachal Pradesh
+  ['171001', 'Shimla', 'Shimla', 'Himachal Pradesh', 31.1048, 77.1734],
+  ['175001', 'Mandi', 'Mandi', 'Himachal Pradesh', 31.7080, 76.9318],
+  // Jammu and Kashmir
+  ['180001', 'Jammu', 'Jammu', 'Jammu and Kashmir', 32.7266, 74.8570],
+  ['190001', 'Srinagar', 'Srinagar', 'Jammu and Kashmir', 34.0837, 74.7973],
+  // Uttar Pradesh
+  ['201001', 'Ghaziabad', 'Ghaziabad', 'Uttar Pradesh', 28.6692, 77.4538],
+  ['201301', 'Noida', 'Gautam Buddha Nagar', 'Uttar Pradesh', 28.5355, 77.3910],
+  ['202001', 'Aligarh', 'Aligarh', 'Uttar Pradesh', 27.8974, 78.0880],
+  ['208001', 'Kanpur', 'Kanpur Nagar', 'Uttar Pradesh', 26.4499, 80.3319],
+  ['211001', 'Prayagraj', 'Prayagraj', 'Uttar Pradesh', 25.4358, 81.8463],
+  ['221001', 'Varanasi', 'Varanasi', 'Uttar Pradesh', 25.3176, 82.9739],
+  ['226001', 'Lucknow', 'Lucknow', 'Uttar Pradesh', 26.8467, 80.9462],
+  ['243001', 'Bareilly', 'Bareilly', 'Uttar Pradesh', 28.3670, 79.4304],
+  ['244001', 'Moradabad', 'Moradabad', 'Uttar Pradesh', 28.8386, 78.7733],
+  ['250001', 'Meerut', 'Meerut', 'Uttar Pradesh', 28.9845, 77.7064],
+  ['273001', 'Gorakhpur', 'Gorakhpur', 'Uttar Pradesh', 26.7606, 83.3732],
+  ['282001', 'Agra', 'Agra', 'Uttar Pradesh', 27.1767, 78.0081],
+  ['281001', 'Mathura', 'Mathura', 'Uttar Pradesh', 27.4924, 77.6737],
+  ['284001', 'Jhansi', 'Jhansi', 'Uttar Pradesh', 25.4484, 78.5685],
+  // Uttarakhand
+  ['248001', 'Dehradun', 'Dehradun', 'Uttarakhand', 30.3165, 78.0322],
+  ['249401', 'Haridwar', 'Haridwar', 'Uttarakhand', 29.9457, 78.1642],
+  ['263001', 'Nainital', 'Nainital', 'Uttarakhand', 29.3919, 79.4542],
+  // Rajasthan
+  ['302001', 'Jaipur', 'Jaipur', 'Rajasthan', 26.9124, 75.7873],
+  ['305001', 'Ajmer', 'Ajmer', 'Rajasthan', 26.4499, 74.6399],
+  ['313001', 'Udaipur', 'Udaipur', 'Rajasthan', 24.5854, 73.7125],
+  ['324001', 'Kota', 'Kota', 'Rajasthan', 25.2138, 75.8648],
+  ['334001', 'Bikaner', 'Bikaner', 'Rajasthan', 28.0229, 73.3119],
+  ['342001', 'Jodhpur', 'Jodhpur', 'Rajasthan', 26.2389, 73.0243],
+  ['345001', 'Jaisalmer', 'Jaisalmer', 'Rajasthan', 26.9157, 70.9083],
+  // Gujarat
+  ['360001', 'Rajkot', 'Rajkot', 'Gujarat', 22.3039, 70.8022],
+  ['361001', 'Jamnagar', 'Jamnagar', 'Gujarat', 22.4707, 70.0577],
+  ['364001', 'Bhavnagar', 'Bhavnagar', 'Gujarat', 21.7645, 72.1519],
+  ['380001', 'Ahmedabad', 'Ahmedabad', 'Gujarat', 23.0225, 72.5714],
+  ['382010', 'Gandhinagar', 'Gandhinagar', 'Gujarat', 23.2156, 72.6369],
+  ['387001', 'Nadiad', 'Kheda', 'Gujarat', 22.6916, 72.8634],
+  ['390001', 'Vadodara', 'Vadodara', 'Gujarat', 22.3072, 73.1812],
+  ['395003', 'Surat', 'Surat', 'Gujarat', 21.1702, 72.8311],
+  ['396001', 'Valsad', 'Valsad', 'Gujarat', 20.5992, 72.9342],
+  // Maharashtra
+  ['400001', 'Mumbai', 'Mumbai', 'Maharashtra', 18.9388, 72.8354],
+  ['400050', 'Bandra West', 'Mumbai Suburban', 'Maharashtra', 19.0596, 72.8295],
+  ['400069', 'Andheri East', 'Mumbai Suburban', 'Maharashtra', 19.1136, 72.8697],
+  ['400601', 'Thane', 'Thane', 'Maharashtra', 19.2183, 72.9781],
+  ['400703', 'Vashi', 'Thane', 'Maharashtra', 19.0771, 72.9986],
+  ['410206', 'Panvel', 'Raigad', 'Maharashtra', 18.9894, 73.1175],
+  ['411001', 'Pune', 'Pune', 'Maharashtra', 18.5204, 73.8567],
+  ['413001', 'Solapur', 'Solapur', 'Maharashtra', 17.6599, 75.9064],
+  ['416001', 'Kolhapur', 'Kolhapur', 'Maharashtra', 16.7050, 74.2433],
+  ['421301', 'Kalyan', 'Thane', 'Maharashtra', 19.2403, 73.1305],
+  ['422001', 'Nashik', 'Nashik', 'Maharashtra', 19.9975, 73.7898],
+  ['425001', 'Jalgaon', 'Jalgaon', 'Maharashtra', 21.0077, 75.5626],
+  ['431001', 'Aurangabad', 'Aurangabad', 'Maharashtra', 19.8762, 75.3433],
+  ['440001', 'Nagpur', 'Nagpur', 'Maharashtra', 21.1458, 79.0882],
+  ['444601', 'Amravati', 'Amravati', 'Maharashtra', 20.9374, 77.7796],
+  // Goa
+  ['403001', 'Panaji', 'North Goa', 'Goa', 15.4909, 73.8278],
+  ['403601', 'Margao', 'South Goa', 'Goa', 15.2832, 73.9862],
+  // Madhya Pradesh
+  ['452001', 'Indore', 'Indore', 'Madhya Pradesh', 22.7196, 75.8577],
+  ['456001', 'Ujjain', 'Ujjain', 'Madhya Pradesh', 23.1765, 75.7885],
+  ['462001', 'Bhopal', 'Bhopal', 'Madhya Pradesh', 23.2599, 77.4126],
+  ['474001', 'Gwalior', 'Gwalior', 'Madhya Pradesh', 26.2183, 78.1828],
+  ['482001', 'Jabalpur', 'Jabalpur', 'Madhya Pradesh', 23.1815, 79.9864],
+  // Chhattisgarh
+  ['490001', 'Durg', 'Durg', 'Chhattisgarh', 21.1904, 81.2849],
+  ['492001', 'Raipur', 'Raipur', 'Chhattisgarh', 21.2514, 81.6296],
+  ['495001', 'Bilaspur', 'Bilaspur', 'Chhattisgarh', 22.0797, 82.1409],
+  // Telangana
+  ['500001', 'Hyderabad', 'Hyderabad', 'Telangana', 17.3850, 78.4867],
+  ['500003', 'Secunderabad', 'Hyderabad', 'Telangana', 17.4399, 78.4983],
+  ['506001', 'Warangal', 'Warangal', 'Telangana', 17.9689, 79.5941],
+  // Andhra Pradesh
+  ['517501', 'Tirupati', 'Tirupati', 'Andhra Pradesh', 13.6288, 79.4192],
+  ['520001', 'Vijayawada', 'Krishna', 'Andhra Pradesh', 16.5062, 80.6480],
+  ['522001', 'Guntur', 'Guntur', 'Andhra Pradesh', 16.3067, 80.4365],
+  ['530001', 'Visakhapatnam', 'Visakhapatnam', 'Andhra Pradesh', 17.6868, 83.2185],
+  ['524001', 'Nellore', 'Nellore', 'Andhra Pradesh', 14.4426, 79.9865],
+  // Karnataka
+  ['560001', 'Bengaluru', 'Bengaluru Urban', 'Karnataka', 12.9716, 77.5946],
+  ['570001', 'Mysuru', 'Mysuru', 'Karnataka', 12.2958, 76.6394],
+  ['575001', 'Mangaluru', 'Dakshina Kannada', 'Karnataka', 12.9141, 74.8560],
+  ['577201', 'Shivamogga', 'Shivamogga', 'Karnataka', 13.9299, 75.5681],
+  ['580020', 'Hubballi', 'Dharwad', 'Karnataka', 15.3647, 75.1240],
+  ['585101', 'Kalaburagi', 'Kalaburagi', 'Karnataka', 17.3297, 76.8343],
+  ['590001', 'Belagavi', 'Belagavi', 'Karnataka', 15.8497, 74.4977],
+  // Tamil Nadu and Puducherry
+  ['600001', 'Chennai', 'Chennai', 'Tamil Nadu', 13.0878, 80.2785],
+  ['605001', 'Puducherry', 'Puducherry', 'Puducherry', 11.9416, 79.8083],
+  ['620001', 'Tiruchirappalli', 'Tiruchirappalli', 'Tamil Nadu', 10.7905, 78.7047],
+  ['625001', 'Madurai', 'Madurai', 'Tamil Nadu', 9.9252, 78.1198],
+  ['627001', 'Tirunelveli', 'Tirunelveli', 'Tamil Nadu', 8.7139, 77.7567],
+  ['632001', 'Vellore', 'Vellore', 'Tamil Nadu', 12.9165, 79.1325],
+  ['636001', 'Salem', 'Salem', 'Tamil Nadu', 11.6643, 78.1460],
+  ['641001', 'Coimbatore', 'Coimbatore', 'Tamil Nadu', 11.0168, 76.9558],
+  // Kerala
+  ['673001', 'Kozhikode', 'Kozhikode', 'Kerala', 11.2588, 75.7804],
+  ['680001', 'Thrissur', 'Thrissur', 'Kerala', 10.5276, 76.2144],
+  ['682001', 'Kochi', 'Ernakulam', 'Kerala', 9.9312, 76.2673],
+  ['695001', 'Thiruvananthapuram', 'Thiruvananthapuram', 'Kerala', 8.5241, 76.9366],
+  // West Bengal
+  ['700001', 'Kolkata', 'Kolkata', 'West Bengal', 22.5726, 88.3639],
+  ['711101', 'Howrah', 'Howrah', 'West Bengal', 22.5958, 88.2636],
+  ['713101', 'Bardhaman', 'Purba Bardhaman', 'West Bengal', 23.2324, 87.8615],
+  ['713201', 'Durgapur', 'Paschim Bardhaman', 'West Bengal', 23.5204, 87.3119],
+  ['734001', 'Siliguri', 'Darjeeling', 'West Bengal', 26.7271, 88.3953],
+  // Odisha
+  ['751001', 'Bhubaneswar', 'Khordha', 'Odisha', 20.2961, 85.8245],
+  ['753001', 'Cuttack', 'Cuttack', 'Odisha', 20.4625, 85.8830],
+  ['769001', 'Rourkela', 'Sundargarh', 'Odisha', 22.2604, 84.8536],
+  // North East
+  ['781001', 'Guwahati', 'Kamrup Metropolitan', 'Assam', 26.1445, 91.7362],
+  ['786001', 'Dibrugarh', 'Dibrugarh', 'Assam', 27.4728, 94.9120],
+  ['793001', 'Shillong', 'East Khasi Hills', 'Meghalaya', 25.5788, 91.8933],
+  ['795001', 'Imphal', 'Imphal West', 'Manipur', 24.8170, 93.9368],
+  ['799001', 'Agartala', 'West Tripura', 'Tripura', 23.8315, 91.2868],
+  ['737101', 'Gangtok', 'Gangtok', 'Sikkim', 27.3389, 88.6065],
+  // Bihar
+  ['800001', 'Patna', 'Patna', 'Bihar', 25.5941, 85.1376],
+  ['812001', 'Bhagalpur', 'Bhagalpur', 'Bihar', 25.2425, 86.9842],
+  ['823001', 'Gaya', 'Gaya', 'Bihar', 24.7914, 85.0002],
+  ['824101', 'Aurangabad', 'Aurangabad', 'Bihar', 24.7521, 84.3742],
+  ['842001', 'Muzaffarpur', 'Muzaffarpur', 'Bihar', 26.1209, 85.3647],
+  // Jharkhand
+  ['826001', 'Dhanbad', 'Dhanbad', 'Jharkhand', 23.7957, 86.4304],
+  ['831001', 'Jamshedpur', 'East Singhbhum', 'Jharkhand', 22.8046, 86.2029],
+  ['834001', 'Ranchi', 'Ranchi', 'Jharkhand', 23.3441, 85.3096],
+];
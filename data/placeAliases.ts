@@ -0,0 +1,20 @@
+/**
+ * Former and colloquial names of towns in the gazetteer, mapped to the office
+ * name used there. Matched case-insensitively.
+ */
+export const PLACE_ALIASES: Record<string, string> = {
+  Allahabad: 'Prayagraj',
+  Banaras: 'Varanasi',
+  Bangalore: 'Bengaluru',
+  Baroda: 'Vadodara',
+  Benares: 'Varanasi',
+  Bombay: 'Mumbai',
+  Calcutta: 'Kolkata',
+  Cochin: 'Kochi',
+  Gurgaon: 'Gurugram',
+  Madras: 'Chennai',
+  Mysore: 'Mysuru',
+  Pondicherry: 'Puducherry',
+  Poona: 'Pune',
+  Trivandrum: 'Thiruvananthapuram',
+};
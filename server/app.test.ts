@@ -0,0 +1,178 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { DrivingInfo, RoutingProvider } from '../types';
+import { ConfigurationError, RoutingError, TransientRoutingError } from '../services/errors';
+import { createRequestHandler, type ServerConfig } from './app';
+
+const ROUTE: DrivingInfo = { distance: 150, travelTime: '3 hours', durationMinutes: 180, routeSummary: 'Via NH48' };
+
+const CONFIG: ServerConfig = { requestsPerMinute: 60, dailyQuota: 1000, allowedOrigin: '', trustProxy: false };
+
+const stubProvider = (): RoutingProvider => ({
+  id: 'stub',
+  name: 'Stub',
+  isAvailable: () => true,
+  getDrivingInfo: vi.fn(async () => ROUTE),
+});
+
+let server: Server | null = null;
+
+/** Serves the handler on a free local port and returns its base URL. */
+const start = async (provider: RoutingProvider, config: Partial<ServerConfig> = {}): Promise<string> => {
+  const { handler } = createRequestHandler(provider, { ...CONFIG, ...config });
+  server = createServer(handler);
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+afterEach(async () => {
+  await new Promise(resolve => server?.close(resolve));
+  server = null;
+});
+
+const postRoute = (base: string, body: unknown) => fetch(`${base}/api/route`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+});
+
+const PAIR = { origin: '400001', destination: '411001' };
+
+describe('POST /api/route', () => {
+  it('answers with the provider\'s route', async () => {
+    const provider = stubProvider();
+    const base = await start(provider);
+    const res = await postRoute(base, { ...PAIR, options: { vehicle: 'truck' } });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual(ROUTE);
+    expect(provider.getDrivingInfo).toHaveBeenCalledWith(
+      expect.objectContaining({ pinCode: '400001' }),
+      expect.objectContaining({ pinCode: '411001' }),
+      expect.objectContaining({ vehicle: 'truck' }),
+    );
+  });
+
+  it.each([
+    ['not JSON', '{', 'The request body is not valid JSON.'],
+    ['a missing destination', { origin: '400001' }, 'Both an origin and a destination are required.'],
+    ['a bad pin code', { origin: '4000', destination: '411001' }, 'Please enter a valid 6-digit pin code.'],
+    ['bad options', { ...PAIR, options: { vehicle: 'boat' } }, 'Unknown vehicle type "boat". Use two-wheeler, car, LCV or truck.'],
+  ])('refuses %s with 400', async (_, body, message) => {
+    const base = await start(stubProvider());
+    const res = await postRoute(base, body);
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: message, code: 'bad_request' });
+  });
+
+  it('refuses bodies over 10 KB with 413', async () => {
+    const base = await start(stubProvider());
+    const res = await postRoute(base, { ...PAIR, padding: 'x'.repeat(11 * 1024) });
+    expect(res.status).toBe(413);
+    expect(await res.json()).toEqual({ error: 'The request is too large.', code: 'bad_request' });
+  });
+
+  it.each([
+    ['a routing error', new RoutingError('No road route found.'), 422, { error: 'No road route found.', code: 'routing' }],
+    ['a transient error', new TransientRoutingError('The provider is busy.'), 503, { error: 'The provider is busy.', code: 'transient' }],
+    ['an unexpected error', new Error('boom'), 500, { error: 'An unexpected error occurred.', code: 'internal' }],
+  ])('maps %s to its status', async (_, error, status, body) => {
+    const provider = stubProvider();
+    vi.mocked(provider.getDrivingInfo).mockRejectedValue(error);
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const base = await start(provider);
+    const res = await postRoute(base, PAIR);
+    expect(res.status).toBe(status);
+    expect(await res.json()).toEqual(body);
+    consoleError.mockRestore();
+  });
+
+  it('hides configuration errors behind a generic 503', async () => {
+    const provider = stubProvider();
+    vi.mocked(provider.getDrivingInfo).mockRejectedValue(new ConfigurationError('API key rejected: abc123'));
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const base = await start(provider);
+    const res = await postRoute(base, PAIR);
+    expect(res.status).toBe(503);
+    const body = await res.json();
+    expect(body.code).toBe('configuration');
+    expect(body.error).not.toContain('abc123');
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('passes a transient error\'s retry delay on as Retry-After', async () => {
+    const provider = stubProvider();
+    vi.mocked(provider.getDrivingInfo).mockRejectedValue(new TransientRoutingError('Slow down.', { retryAfterMs: 2500 }));
+    const base = await start(provider);
+    const res = await postRoute(base, PAIR);
+    expect(res.status).toBe(503);
+    expect(res.headers.get('retry-after')).toBe('3');
+  });
+
+  it('answers 429 with Retry-After over the rate limit', async () => {
+    const base = await start(stubProvider(), { requestsPerMinute: 1 });
+    expect((await postRoute(base, PAIR)).status).toBe(200);
+    const res = await postRoute(base, PAIR);
+    expect(res.status).toBe(429);
+    expect(res.headers.get('retry-after')).toBe('60');
+    expect((await res.json()).code).toBe('rate_limited');
+  });
+
+  it('answers 429 quota_exceeded once the daily quota is used', async () => {
+    const base = await start(stubProvider(), { dailyQuota: 1 });
+    expect((await postRoute(base, PAIR)).status).toBe(200);
+    const res = await postRoute(base, PAIR);
+    expect(res.status).toBe(429);
+    expect(Number(res.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect((await res.json()).code).toBe('quota_exceeded');
+  });
+
+  it('does not charge invalid requests against the limits', async () => {
+    const base = await start(stubProvider(), { requestsPerMinute: 1, dailyQuota: 1 });
+    expect((await postRoute(base, { origin: '4000', destination: '411001' })).status).toBe(400);
+    expect((await postRoute(base, '{')).status).toBe(400);
+    expect((await postRoute(base, PAIR)).status).toBe(200);
+  });
+
+  it('answers 503 when the provider is not configured, without charging', async () => {
+    const provider = { ...stubProvider(), isAvailable: () => false };
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const base = await start(provider, { dailyQuota: 1 });
+    expect((await postRoute(base, PAIR)).status).toBe(503);
+    expect((await postRoute(base, PAIR)).status).toBe(503);
+    consoleError.mockRestore();
+  });
+});
+
+describe('other requests', () => {
+  it('reports the provider on /api/health', async () => {
+    const base = await start(stubProvider());
+    const res = await fetch(`${base}/api/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ provider: 'stub', available: true });
+  });
+
+  it('answers 404 for unknown paths and methods', async () => {
+    const base = await start(stubProvider());
+    expect((await fetch(`${base}/api/other`)).status).toBe(404);
+    expect((await fetch(`${base}/api/route`)).status).toBe(404);
+  });
+
+  it('answers CORS preflight requests for the allowed origin', async () => {
+    const provider = stubProvider();
+    const base = await start(provider, { allowedOrigin: 'https://app.example.com' });
+    const res = await fetch(`${base}/api/route`, { method: 'OPTIONS' });
+    expect(res.status).toBe(204);
+    expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example.com');
+    expect(res.headers.get('access-control-allow-methods')).toBe('GET, POST, OPTIONS');
+    expect(res.headers.get('access-control-allow-headers')).toBe('Content-Type');
+    expect(provider.getDrivingInfo).not.toHaveBeenCalled();
+  });
+
+  it('sends no CORS headers without an allowed origin', async () => {
+    const base = await start(stubProvider());
+    const res = await fetch(`${base}/api/health`);
+    expect(res.headers.get('access-control-allow-origin')).toBeNull();
+  });
+});
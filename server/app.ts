@@ -0,0 +1,181 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { RouteApiError, RouteApiErrorCode, RouteOptions, RoutingProvider } from '../types';
+import { ConfigurationError, RoutingError, TransientRoutingError } from '../services/errors';
+import { parseLocation, validateLocation } from '../services/location';
+import { parseRouteOptions } from '../services/routeOptions';
+import { ClientLimiter } from './clientLimiter';
+
+interface ServerConfig {
+  requestsPerMinute: number;
+  dailyQuota: number;
+  /** Origin allowed to call the API cross-site; empty for same-origin only. */
+  allowedOrigin: string;
+  /** Take the client address from X-Forwarded-For (behind a reverse proxy). */
+  trustProxy: boolean;
+}
+
+/** Larger request bodies are refused. */
+const MAX_BODY_BYTES = 10 * 1024;
+
+const CONFIGURATION_MESSAGE = 'There is an issue with the API configuration. Please try again later.';
+
+/** A request that fails before reaching the provider. */
+class HttpError extends Error {
+  readonly status: number;
+  readonly code: RouteApiErrorCode;
+
+  constructor(status: number, code: RouteApiErrorCode, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, code: RouteApiErrorCode, message: string, retryAfterMs?: number) => {
+  const body: RouteApiError = { error: message, code };
+  sendJson(res, status, body, retryAfterMs === undefined ? {} : { 'Retry-After': String(Math.ceil(retryAfterMs / 1000)) });
+};
+
+const clientAddress = (req: IncomingMessage, trustProxy: boolean): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (trustProxy && typeof forwarded === 'string' && forwarded.trim()) {
+    return forwarded.split(',')[0].trim();
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
+
+const readBody = (req: IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      // Drain the rest unread so the error response can still be sent.
+      req.removeAllListeners('data');
+      req.resume();
+      reject(new HttpError(413, 'bad_request', 'The request is too large.'));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+  req.on('error', reject);
+});
+
+/**
+ * Checks the shape of a /api/route body. Options go through the same parser
+ * as bulk option columns, so anything the app can send is accepted.
+ */
+const parseRouteRequest = (body: string): { origin: string; destination: string; options: RouteOptions } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'bad_request', 'The request body is not valid JSON.');
+  }
+  const { origin, destination, options = {} } = (data ?? {}) as Record<string, unknown>;
+  if (typeof origin !== 'string' || typeof destination !== 'string' || !origin.trim() || !destination.trim()) {
+    throw new HttpError(400, 'bad_request', 'Both an origin and a destination are required.');
+  }
+  const text = (value: unknown) => (value === undefined || value === null ? undefined : String(value));
+  const raw = options as Record<string, unknown>;
+  try {
+    return {
+      origin: origin.trim(),
+      destination: destination.trim(),
+      options: parseRouteOptions({
+        vehicle: text(raw.vehicle),
+        avoidTolls: text(raw.avoidTolls),
+        avoidHighways: text(raw.avoidHighways),
+        departureTime: text(raw.departureTime),
+      }),
+    };
+  } catch (err) {
+    throw new HttpError(400, 'bad_request', err instanceof Error ? err.message : 'Invalid route options.');
+  }
+};
+
+/**
+ * Request handler for the routing server. `POST /api/route` looks up one
+ * route through `provider` and answers with its DrivingInfo. Only valid
+ * requests count against the client's rate limit and daily quota, so a
+ * mistyped pin code costs nothing; `GET /api/health` reports which
+ * provider is in use. Errors are JSON RouteApiError bodies.
+ */
+const createRequestHandler = (provider: RoutingProvider, config: ServerConfig) => {
+  const limiter = new ClientLimiter(config.requestsPerMinute, config.dailyQuota);
+
+  const handleRoute = async (req: IncomingMessage, res: ServerResponse) => {
+    const { origin, destination, options } = parseRouteRequest(await readBody(req));
+    const from = parseLocation(origin);
+    const to = parseLocation(destination);
+    const locationError = validateLocation(from) ?? validateLocation(to);
+    if (locationError) {
+      throw new HttpError(400, 'bad_request', locationError);
+    }
+    if (!provider.isAvailable()) {
+      throw new ConfigurationError(`The ${provider.name} provider is not configured.`);
+    }
+
+    // Only requests that will reach the provider count against the limits.
+    const refusal = limiter.take(clientAddress(req, config.trustProxy));
+    if (refusal) {
+      if (refusal.reason === 'quota') {
+        sendError(res, 429, 'quota_exceeded', `The daily limit of ${config.dailyQuota} route lookups has been reached. Please try again tomorrow.`, refusal.retryAfterMs);
+      } else {
+        sendError(res, 429, 'rate_limited', 'Too many requests. Please slow down.', refusal.retryAfterMs);
+      }
+      return;
+    }
+    sendJson(res, 200, await provider.getDrivingInfo(from, to, options));
+  };
+
+  const handler = async (req: IncomingMessage, res: ServerResponse) => {
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204).end();
+        return;
+      }
+    }
+
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    try {
+      if (path === '/api/route' && req.method === 'POST') {
+        await handleRoute(req, res);
+      } else if (path === '/api/health' && req.method === 'GET') {
+        sendJson(res, 200, { provider: provider.id, available: provider.isAvailable() });
+      } else {
+        sendError(res, 404, 'bad_request', 'Not found.');
+      }
+    } catch (error) {
+      if (error instanceof HttpError) {
+        sendError(res, error.status, error.code, error.message);
+      } else if (error instanceof ConfigurationError) {
+        // The details (e.g. a rejected key) stay in the server log.
+        console.error('Routing provider configuration error:', error);
+        sendError(res, 503, 'configuration', CONFIGURATION_MESSAGE);
+      } else if (error instanceof TransientRoutingError) {
+        sendError(res, 503, 'transient', error.message, error.retryAfterMs);
+      } else if (error instanceof RoutingError) {
+        sendError(res, 422, 'routing', error.message);
+      } else {
+        console.error('Unexpected error handling', req.method, path, error);
+        sendError(res, 500, 'internal', 'An unexpected error occurred.');
+      }
+    }
+  };
+
+  return { handler, limiter };
+};
+
+export { createRequestHandler };
+export type { ServerConfig };
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ClientLimiter } from './clientLimiter';
+
+const start = Date.UTC(2026, 0, 15, 12);
+
+describe('ClientLimiter', () => {
+  it('rejects non-positive limits', () => {
+    expect(() => new ClientLimiter(0, 10)).toThrow(RangeError);
+    expect(() => new ClientLimiter(10, 0)).toThrow(RangeError);
+  });
+
+  it('allows a minute of requests in a burst, then refills over time', () => {
+    const limiter = new ClientLimiter(60, 1000);
+    for (let i = 0; i < 60; i++) {
+      expect(limiter.take('a', start)).toBeNull();
+    }
+    expect(limiter.take('a', start)).toEqual({ reason: 'rate', retryAfterMs: 1000 });
+    expect(limiter.take('a', start + 1000)).toBeNull();
+  });
+
+  it('limits each client separately', () => {
+    const limiter = new ClientLimiter(1, 1000);
+    expect(limiter.take('a', start)).toBeNull();
+    expect(limiter.take('a', start)?.reason).toBe('rate');
+    expect(limiter.take('b', start)).toBeNull();
+  });
+
+  it('refuses requests past the daily quota until UTC midnight', () => {
+    const limiter = new ClientLimiter(60, 2);
+    expect(limiter.take('a', start)).toBeNull();
+    expect(limiter.take('a', start)).toBeNull();
+    expect(limiter.take('a', start)).toEqual({ reason: 'quota', retryAfterMs: 12 * 60 * 60 * 1000 });
+    expect(limiter.take('a', start + 12 * 60 * 60 * 1000)).toBeNull();
+  });
+
+  it('does not count refused requests', () => {
+    const limiter = new ClientLimiter(1, 2);
+    expect(limiter.take('a', start)).toBeNull();
+    expect(limiter.take('a', start)?.reason).toBe('rate');
+    expect(limiter.take('a', start + 60_000)).toBeNull();
+    expect(limiter.take('a', start + 120_000)?.reason).toBe('quota');
+  });
+
+  it('forgets clients not seen today', () => {
+    const limiter = new ClientLimiter(1, 1);
+    limiter.take('a', start);
+    limiter.prune(start + 24 * 60 * 60 * 1000);
+    expect(limiter.take('a', start + 24 * 60 * 60 * 1000)).toBeNull();
+  });
+});
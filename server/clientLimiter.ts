@@ -0,0 +1,84 @@
+/** Why a request was refused, and when the client may try again. */
+interface LimitRefusal {
+  reason: 'rate' | 'quota';
+  retryAfterMs: number;
+}
+
+interface ClientUsage {
+  tokens: number;
+  lastRefill: number;
+  /** UTC date (YYYY-MM-DD) that `used` counts requests for. */
+  day: string;
+  used: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const utcDay = (now: number): string => new Date(now).toISOString().slice(0, 10);
+
+/**
+ * Per-client limits for the routing server: a token bucket allowing
+ * `requestsPerMinute` (with bursts of up to a minute's worth) and a quota of
+ * `dailyQuota` requests per UTC day. Usage is kept in memory, so it resets
+ * when the server restarts.
+ */
+class ClientLimiter {
+  private readonly clients = new Map<string, ClientUsage>();
+  private readonly requestsPerMinute: number;
+  private readonly dailyQuota: number;
+
+  constructor(requestsPerMinute: number, dailyQuota: number) {
+    if (requestsPerMinute <= 0 || dailyQuota <= 0) {
+      throw new RangeError('requestsPerMinute and dailyQuota must be greater than zero.');
+    }
+    this.requestsPerMinute = requestsPerMinute;
+    this.dailyQuota = dailyQuota;
+  }
+
+  /**
+   * Counts a request from `clientId` if both limits allow it and returns null;
+   * otherwise returns the refusal. A refused request is not counted.
+   */
+  take(clientId: string, now = Date.now()): LimitRefusal | null {
+    const today = utcDay(now);
+    let usage = this.clients.get(clientId);
+    if (!usage) {
+      usage = { tokens: this.requestsPerMinute, lastRefill: now, day: today, used: 0 };
+      this.clients.set(clientId, usage);
+    }
+    if (usage.day !== today) {
+      usage.day = today;
+      usage.used = 0;
+    }
+
+    if (usage.used >= this.dailyQuota) {
+      const midnight = Math.floor(now / MS_PER_DAY + 1) * MS_PER_DAY;
+      return { reason: 'quota', retryAfterMs: midnight - now };
+    }
+
+    const refillPerMs = this.requestsPerMinute / 60000;
+    usage.tokens = Math.min(this.requestsPerMinute, usage.tokens + (now - usage.lastRefill) * refillPerMs);
+    usage.lastRefill = now;
+    if (usage.tokens < 1) {
+      return { reason: 'rate', retryAfterMs: Math.ceil((1 - usage.tokens) / refillPerMs) };
+    }
+
+    usage.tokens -= 1;
+    usage.used += 1;
+    return null;
+  }
+
+  /**
+   * Forgets clients that have not been seen today, so memory use stays
+   * bounded by the number of clients per day.
+   */
+  prune(now = Date.now()): void {
+    const today = utcDay(now);
+    for (const [clientId, usage] of this.clients) {
+      if (usage.day !== today) this.clients.delete(clientId);
+    }
+  }
+}
+
+export { ClientLimiter };
+export type { LimitRefusal };
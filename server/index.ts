@@ -0,0 +1,48 @@
+import { createServer } from 'node:http';
+import { geminiProvider } from '../services/geminiService';
+import { mockProvider } from '../services/mockService';
+import { createRequestHandler } from './app';
+
+/**
+ * Routing server: holds the Gemini API key and answers the app's
+ * /api/route requests. Run with `npm run server`, or `npm run server:stub`
+ * to answer with the offline mock provider instead (no key needed).
+ *
+ * Settings come from the environment or .env.local: GEMINI_API_KEY, API_PORT
+ * (default 8787), ROUTE_RATE_LIMIT (requests per minute per client, default
+ * 60), ROUTE_DAILY_QUOTA (requests per client per day, default 1000),
+ * ALLOWED_ORIGIN and TRUST_PROXY.
+ */
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local; rely on the environment.
+}
+
+const numberSetting = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// The Gemini provider reads its key from API_KEY.
+process.env.API_KEY ||= process.env.GEMINI_API_KEY;
+
+const stub = process.argv.includes('--stub') || process.env.ROUTE_STUB === '1';
+const provider = stub ? mockProvider : geminiProvider;
+const port = numberSetting('API_PORT', 8787);
+
+const { handler, limiter } = createRequestHandler(provider, {
+  requestsPerMinute: numberSetting('ROUTE_RATE_LIMIT', 60),
+  dailyQuota: numberSetting('ROUTE_DAILY_QUOTA', 1000),
+  allowedOrigin: process.env.ALLOWED_ORIGIN ?? '',
+  trustProxy: process.env.TRUST_PROXY === '1',
+});
+
+setInterval(() => limiter.prune(), 60 * 60 * 1000).unref();
+
+createServer(handler).listen(port, () => {
+  console.log(`Routing server listening on http://localhost:${port} (provider: ${provider.name})`);
+  if (!provider.isAvailable()) {
+    console.warn('GEMINI_API_KEY is not set; route requests will fail. Use --stub to run without a key.');
+  }
+});
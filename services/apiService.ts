@@ -0,0 +1,80 @@
+import type { DrivingInfo, Location, RouteApiError, RouteApiRequest, RouteOptions, RoutingProvider } from '../types';
+import { ConfigurationError, QuotaExceededError, RoutingError, TransientRoutingError } from './errors';
+
+/**
+ * Same origin by default; the dev server proxies /api to the routing server.
+ * Read on each call so the command-line runner can set it.
+ */
+const routeUrl = (): string => `${process.env.ROUTING_API_URL || ''}/api/route`;
+
+const retryAfterMs = (response: Response): number | undefined => {
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : undefined;
+};
+
+/**
+ * Maps a failed response onto the routing error classes, so rate limits are
+ * retried, a used-up quota or a broken server key stops bulk jobs, and
+ * anything else fails just its row.
+ */
+const toRoutingError = async (response: Response): Promise<RoutingError> => {
+  let body: Partial<RouteApiError> = {};
+  try {
+    body = await response.json();
+  } catch {
+    // Not a RouteApiError body, e.g. a proxy's error page.
+  }
+  const message = body.error ?? `The routing server returned HTTP ${response.status}.`;
+  switch (body.code) {
+    case 'quota_exceeded':
+      return new QuotaExceededError(message);
+    case 'configuration':
+      return new ConfigurationError(message);
+    case 'rate_limited':
+    case 'transient':
+      return new TransientRoutingError(message, { retryAfterMs: retryAfterMs(response) });
+  }
+  if (response.status === 429 || response.status >= 500) {
+    return new TransientRoutingError(message, { retryAfterMs: retryAfterMs(response) });
+  }
+  return new RoutingError(message);
+};
+
+/**
+ * Looks the route up through the routing server (see server/), which holds
+ * the API key. Locations are sent as typed and parsed again on the server.
+ */
+const getDrivingInfo = async (origin: Location, destination: Location, options: RouteOptions): Promise<DrivingInfo> => {
+  const body: RouteApiRequest = { origin: origin.value, destination: destination.value, options };
+  let response: Response;
+  try {
+    response = await fetch(routeUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    // fetch() rejects with a TypeError when the server is unreachable.
+    throw new TransientRoutingError('Could not reach the routing server.', { cause: error });
+  }
+
+  if (!response.ok) {
+    throw await toRoutingError(response);
+  }
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new RoutingError('Could not read the route returned by the routing server.', { cause: error });
+  }
+};
+
+const apiProvider: RoutingProvider = {
+  id: 'api',
+  name: 'Routing server',
+  isAvailable: () => true,
+  // The server looks routes up with Gemini and passes its usage on.
+  usesTokens: true,
+  getDrivingInfo,
+};
+
+export { getDrivingInfo, apiProvider };
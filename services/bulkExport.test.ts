@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import type { BulkError, BulkResultRow, BulkTask } from '../types';
+import { buildBulkTasks } from './bulkProcessor';
+import { buildResultTable, readResultTable } from './bulkExport';
+import { readTable, writeTable } from './tableFormats';
+import type { TableData, TableFormat } from './tableFormats';
+
+const inputHeaders = ['Origin', 'Destination', 'Vehicle', 'Status'];
+const inputRows = [['400001', 'Pune', 'truck', 'new'], ['110001', 'Agra', '2W', 'old']];
+const tasks: BulkTask[] = buildBulkTasks(inputRows, { origin: 0, destination: 1, vehicle: 2 });
+
+const results: BulkResultRow[] = [{
+  row: tasks[0].row,
+  'Origin Pin Code': '400001',
+  'Destination City': 'Pune',
+  distance: 150,
+  travelTime: '3 hours 30 mins',
+  durationMinutes: 210,
+  routeSummary: 'via NH48',
+  confidence: 1,
+  warnings: [],
+  options: tasks[0].options,
+  input: tasks[0].values,
+}];
+const errors: BulkError[] = [{ row: tasks[1].row, origin: '110001', destination: 'Agra', message: 'No route', input: tasks[1].values }];
+
+const roundTrip = async (format: TableFormat) => {
+  const blob = writeTable(buildResultTable(inputHeaders, tasks, results, errors), format);
+  return readTable(new File([blob], `results.${format === 'ndjson' ? 'ndjson' : format}`));
+};
+
+describe('buildResultTable', () => {
+  it('renames result columns that an input column already uses', () => {
+    const { headers } = buildResultTable(inputHeaders, tasks, results, errors);
+    expect(headers.slice(0, 6)).toEqual(['Origin', 'Destination', 'Vehicle', 'Status', 'Result Status', 'Error']);
+    expect(headers).toContain('Result Vehicle');
+    expect(new Set(headers).size).toBe(headers.length);
+  });
+
+  it('numbers the renamed column when that name is taken too', () => {
+    const { headers } = buildResultTable(['Error', 'Result Error'], [], [], []);
+    expect(headers.slice(0, 4)).toEqual(['Error', 'Result Error', 'Status', 'Result Error 2']);
+  });
+
+  it.each<TableFormat>(['csv', 'json', 'ndjson', 'xlsx'])('keeps every input value in a %s round trip', async (format) => {
+    const table = await roundTrip(format);
+    expect(table.rows.map(row => row.slice(0, inputHeaders.length))).toEqual(inputRows);
+    expect(table.rows[1][table.headers.indexOf('Result Status')]).toBe('failed');
+    expect(table.rows[1][table.headers.indexOf('Error')]).toBe('No route');
+  });
+});
+
+describe('readResultTable', () => {
+  it('reads finished rows back from an export whose input has result column names', async () => {
+    const read = readResultTable(inputHeaders, tasks, await roundTrip('csv'));
+    expect(read).toHaveLength(1);
+    expect(read[0]).toMatchObject({ row: tasks[0].row, distance: 150, durationMinutes: 210, options: { vehicle: 'truck' } });
+  });
+
+  it('rejects an export of a different input', async () => {
+    const table = await roundTrip('csv');
+    expect(() => readResultTable(['From', 'To', 'Vehicle', 'Status'], tasks, table)).toThrow('does not have the columns');
+  });
+
+  /** The export as text cells, with `changes` (header → value) applied to the first row. */
+  const edited = (changes: Record<string, string>, ...more: Array<Record<string, string>>): TableData => {
+    const { headers, rows } = buildResultTable(inputHeaders, tasks, results, errors);
+    const cells = rows.map(row => row.map(value => String(value)));
+    [changes, ...more].forEach((rowChanges, i) => {
+      for (const [header, value] of Object.entries(rowChanges)) cells[i][headers.indexOf(header)] = value;
+    });
+    return { headers, rows: cells };
+  };
+
+  it('accepts blank optional numbers', () => {
+    const [read] = readResultTable(inputHeaders, tasks, edited({ 'Travel Time (min)': '', Confidence: '' }));
+    expect(read.durationMinutes).toBeUndefined();
+    expect(read.confidence).toBeUndefined();
+  });
+
+  it.each([
+    ['an unknown status', { 'Result Status': 'done' }, 'row 2: unknown status "done"'],
+    ['a missing distance', { 'Distance (km)': '' }, 'row 2: "" in Distance (km)'],
+    ['a distance that is not a number', { 'Distance (km)': '150 km' }, 'row 2: "150 km" in Distance (km)'],
+    ['a negative travel time', { 'Travel Time (min)': '-5' }, 'row 2: "-5" in Travel Time (min)'],
+    ['a confidence over 1', { Confidence: '80' }, 'row 2: "80" in Confidence'],
+    ['unreadable route options', { 'Result Vehicle': 'boat' }, 'row 2: Unknown vehicle type "boat"'],
+  ])('reports a row with %s', (_, changes, message) => {
+    expect(() => readResultTable(inputHeaders, tasks, edited(changes))).toThrow(message);
+  });
+
+  it('lists the problems of every bad row', () => {
+    const table = edited({ 'Distance (km)': 'x', Confidence: '2' }, { 'Result Status': '' });
+    expect(() => readResultTable(inputHeaders, tasks, table)).toThrow(
+      'The existing output has 2 unreadable rows: row 2: "x" in Distance (km), "2" in Confidence; row 3: unknown status "".',
+    );
+  });
+
+  it('ignores result cells of rows that did not finish', () => {
+    expect(readResultTable(inputHeaders, tasks, edited({}, { 'Distance (km)': 'x' }))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,181 @@
+import type { BulkError, BulkResultRow, BulkTask, RateCard, RouteOptions } from '../types';
+import { calculateCost } from './rateCards';
+import { VEHICLES, parseRouteOptions } from './routeOptions';
+import type { TableData } from './tableFormats';
+import { isSuspicious } from './validation';
+
+const RESULT_HEADERS = [
+  'Status', 'Error', 'Distance (km)', 'Travel Time', 'Travel Time (min)', 'Route Summary', 'Confidence', 'Warnings',
+  'Vehicle', 'Avoid Tolls', 'Avoid Highways', 'Departure Time',
+];
+
+/** Added when the run is priced with a rate card. Amounts are in rupees. */
+const COST_HEADERS = ['Rate Card', 'Base Fare', 'Distance Charge', 'Subtotal', 'Fuel Surcharge', 'GST', 'Total Charge'];
+
+/**
+ * The headers added after `inputHeaders`. A result header that an input
+ * column already uses (e.g. a per-row 'Vehicle' column) is renamed to
+ * 'Result Vehicle', with a number added if that is taken too, so every input
+ * column is kept as it was.
+ */
+const outputHeaders = (inputHeaders: string[], added: string[]): string[] => {
+  const taken = new Set(inputHeaders.map(header => header.trim().toLowerCase()));
+  return added.map(header => {
+    let name = header;
+    for (let n = 1; taken.has(name.toLowerCase()); n++) {
+      name = n === 1 ? `Result ${header}` : `Result ${header} ${n}`;
+    }
+    taken.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const yesNo = (flag: boolean): string => (flag ? 'yes' : 'no');
+
+/**
+ * Builds the export table for a bulk run: one row per input row, in input
+ * order, with every original column followed by the row's status, error
+ * message, computed distance, travel time (as text and in minutes), route
+ * summary and confidence, and the route options used, plus the charges
+ * when a rate card is given. Successful rows that fail validation are marked
+ * 'warning', and rows that were never looked up (e.g. after a cancel)
+ * 'not processed'. Result columns never overwrite input columns of the same
+ * name; see outputHeaders.
+ */
+const buildResultTable = (
+  inputHeaders: string[],
+  tasks: BulkTask[],
+  results: BulkResultRow[],
+  errors: BulkError[],
+  rateCard: RateCard | null = null,
+): { headers: string[]; rows: unknown[][] } => {
+  const resultsByRow = new Map(results.map(r => [r.row, r]));
+  const errorsByRow = new Map(errors.map(e => [e.row, e]));
+
+  const headers = [...inputHeaders, ...outputHeaders(inputHeaders, [...RESULT_HEADERS, ...(rateCard ? COST_HEADERS : [])])];
+  const noResult = headers.slice(inputHeaders.length + 2).map(() => '');
+  const costCells = (result: BulkResultRow): unknown[] => {
+    if (!rateCard) return [];
+    const cost = calculateCost(result, rateCard);
+    return [cost.rateCard, cost.baseFare, cost.distanceCharge, cost.subtotal, cost.fuelSurcharge, cost.gst, cost.total];
+  };
+  const rows = [...tasks]
+    .sort((a, b) => a.row - b.row)
+    .map(task => {
+      const input = inputHeaders.map((_, i) => task.values[i] ?? '');
+      const result = resultsByRow.get(task.row);
+      if (result) {
+        return [
+          ...input, isSuspicious(result) ? 'warning' : 'success', '', result.distance, result.travelTime,
+          result.durationMinutes ?? '', result.routeSummary,
+          result.confidence ?? '', result.warnings?.join(' ') ?? '',
+          ...(result.options
+            ? [VEHICLES[result.options.vehicle].label, yesNo(result.options.avoidTolls), yesNo(result.options.avoidHighways), result.options.departureTime]
+            : ['', '', '', '']),
+          ...costCells(result),
+        ];
+      }
+      const error = errorsByRow.get(task.row);
+      if (error) {
+        return [...input, 'failed', error.message, ...noResult];
+      }
+      return [...input, 'not processed', '', ...noResult];
+    });
+  return { headers, rows };
+};
+
+const STATUSES = ['success', 'warning', 'failed', 'not processed'];
+
+/** Bad rows listed in a readResultTable error before the rest are counted. */
+const MAX_REPORTED_ROWS = 5;
+
+/**
+ * Reads the finished rows back out of an earlier export of the same input,
+ * e.g. to resume an interrupted run: rows marked 'success' or 'warning'
+ * become results again, the rest are left to be looked up. Export rows are
+ * matched to tasks by position and must still hold the same input values.
+ * Unknown statuses and unreadable distances, times, confidences or options
+ * are not guessed at; the error lists the rows that have them.
+ */
+const readResultTable = (inputHeaders: string[], tasks: BulkTask[], table: TableData): BulkResultRow[] => {
+  const expected = [...inputHeaders, ...outputHeaders(inputHeaders, RESULT_HEADERS)];
+  if (expected.some((header, i) => table.headers[i] !== header)) {
+    throw new Error('The existing output does not have the columns of an export of this input.');
+  }
+  const sorted = [...tasks].sort((a, b) => a.row - b.row);
+  if (table.rows.length !== sorted.length) {
+    throw new Error(`The existing output has ${table.rows.length} rows but the input has ${sorted.length}.`);
+  }
+
+  const results: BulkResultRow[] = [];
+  const problems: string[] = [];
+  sorted.forEach((task, i) => {
+    const cells = table.rows[i];
+    if (inputHeaders.some((_, c) => (cells[c] ?? '') !== (task.values[c] ?? ''))) {
+      throw new Error(`Row ${task.row} of the existing output does not match the input.`);
+    }
+    const cell = (header: string) => (cells[inputHeaders.length + RESULT_HEADERS.indexOf(header)] ?? '').trim();
+    const status = cell('Status');
+    if (!STATUSES.includes(status)) {
+      problems.push(`row ${task.row}: unknown status "${status}"`);
+      return;
+    }
+    if (status !== 'success' && status !== 'warning') return;
+
+    const rowProblems: string[] = [];
+    const number = (header: string, required: boolean, max = Infinity): number | undefined => {
+      const text = cell(header);
+      if (text === '' && !required) return undefined;
+      const value = Number(text);
+      if (text === '' || !Number.isFinite(value) || value < 0 || value > max) {
+        rowProblems.push(`"${text}" in ${header}`);
+      }
+      return value;
+    };
+    const distance = number('Distance (km)', true);
+    const durationMinutes = number('Travel Time (min)', false);
+    const confidence = number('Confidence', false, 1);
+    let options: RouteOptions | undefined;
+    try {
+      options = parseRouteOptions({
+        vehicle: cell('Vehicle'),
+        avoidTolls: cell('Avoid Tolls'),
+        avoidHighways: cell('Avoid Highways'),
+        departureTime: cell('Departure Time'),
+      });
+    } catch (err) {
+      rowProblems.push(err instanceof Error ? err.message : 'unreadable route options');
+    }
+    if (rowProblems.length > 0) {
+      problems.push(`row ${task.row}: ${rowProblems.join(', ')}`);
+      return;
+    }
+    results.push({
+      row: task.row,
+      "Origin Pin Code": task.origin,
+      "Destination City": task.destination,
+      distance,
+      travelTime: cell('Travel Time'),
+      durationMinutes,
+      routeSummary: cell('Route Summary'),
+      confidence,
+      // The export joins warnings into one cell.
+      warnings: cell('Warnings') ? [cell('Warnings')] : [],
+      options,
+      input: task.values,
+    });
+  });
+
+  if (problems.length > 0) {
+    const more = problems.length - MAX_REPORTED_ROWS;
+    throw new Error(
+      `The existing output has ${problems.length} unreadable row${problems.length === 1 ? '' : 's'}: `
+      + problems.slice(0, MAX_REPORTED_ROWS).join('; ')
+      + (more > 0 ? `; and ${more} more` : '')
+      + '. Fix them or remove the output file to start over.',
+    );
+  }
+  return results;
+};
+
+export { RESULT_HEADERS, COST_HEADERS, buildResultTable, readResultTable };
@@ -0,0 +1,142 @@
+import type { BulkError, BulkResultRow, BulkSettings, BulkTask, ColumnMapping, RouteOptions } from '../types';
+import { JobController, runJob } from './jobRunner';
+import { parseLocation, validateLocation } from './location';
+import { TokenBucket } from './rateLimiter';
+import { withRetry } from './retry';
+import { getDrivingInfoCached } from './routeCache';
+import { DEFAULT_ROUTE_OPTIONS, parseRouteOptions } from './routeOptions';
+import { getDrivingInfo } from './routingService';
+
+const DEFAULT_BULK_SETTINGS: BulkSettings = {
+  concurrency: 4,
+  requestsPerMinute: 60,
+  maxRetries: 4,
+};
+
+const ORIGIN_HEADER_PATTERNS = [/^origin pin ?code$/i, /origin/i, /^from$/i, /pin ?code|pincode/i, /source/i];
+const DESTINATION_HEADER_PATTERNS = [/^destination city$/i, /destination/i, /^to$/i, /city|town/i];
+
+/** Optional per-row route option columns, recognised by header only. */
+const OPTION_HEADER_PATTERNS: Record<'vehicle' | 'avoidTolls' | 'avoidHighways' | 'departureTime', RegExp> = {
+  vehicle: /vehicle/i,
+  avoidTolls: /toll/i,
+  avoidHighways: /highway/i,
+  departureTime: /depart/i,
+};
+
+const findHeader = (headers: string[], patterns: RegExp[], exclude = -1): number => {
+  for (const pattern of patterns) {
+    const index = headers.findIndex((h, i) => i !== exclude && pattern.test(h.trim()));
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+/**
+ * Best guess at which columns hold the origin and destination, preferring
+ * the template's 'Origin Pin Code' / 'Destination City' names. Falls back to
+ * the first two columns. Route option columns ('Vehicle', 'Avoid Tolls',
+ * 'Avoid Highways', 'Departure Time') are mapped only when present.
+ */
+const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  let origin = findHeader(headers, ORIGIN_HEADER_PATTERNS);
+  let destination = findHeader(headers, DESTINATION_HEADER_PATTERNS, origin);
+  if (origin === -1) origin = destination === 0 ? 1 : 0;
+  if (destination === -1) destination = origin === 0 ? 1 : 0;
+
+  const mapping: ColumnMapping = { origin, destination };
+  for (const [key, pattern] of Object.entries(OPTION_HEADER_PATTERNS) as Array<[keyof typeof OPTION_HEADER_PATTERNS, RegExp]>) {
+    const index = headers.findIndex((h, i) => i !== origin && i !== destination && pattern.test(h));
+    if (index !== -1) mapping[key] = index;
+  }
+  return mapping;
+};
+
+/**
+ * One task per data row. Row numbers count the header as row 1, matching
+ * what a spreadsheet shows. Mapped option columns override `defaults` per
+ * row; a row whose options can't be read fails when it is processed.
+ */
+const buildBulkTasks = (rows: string[][], mapping: ColumnMapping, defaults: RouteOptions = DEFAULT_ROUTE_OPTIONS): BulkTask[] => {
+  const cell = (row: string[], index?: number) => (index === undefined ? undefined : row[index]);
+  return rows.map((row, i) => {
+    const task: BulkTask = {
+      row: i + 2,
+      origin: row[mapping.origin]?.trim() || '',
+      destination: row[mapping.destination]?.trim() || '',
+      values: row,
+      options: defaults,
+    };
+    try {
+      task.options = parseRouteOptions({
+        vehicle: cell(row, mapping.vehicle),
+        avoidTolls: cell(row, mapping.avoidTolls),
+        avoidHighways: cell(row, mapping.avoidHighways),
+        departureTime: cell(row, mapping.departureTime),
+      }, defaults);
+    } catch (err) {
+      task.optionsError = err instanceof Error ? err.message : 'Invalid route options.';
+    }
+    return task;
+  });
+};
+
+interface BulkCallbacks {
+  onResult: (result: BulkResultRow) => void;
+  onError: (error: BulkError) => void;
+}
+
+/**
+ * Looks up every task through the active routing provider, `concurrency` at a
+ * time and no faster than `requestsPerMinute`. Rate limits and transient
+ * failures are retried with backoff; other failures are reported per row.
+ * A fatal error (e.g. a rejected API key) stops the job and is rethrown.
+ * Pass a controller to pause, resume or cancel the job.
+ */
+const processBulkTasks = async (
+  tasks: BulkTask[],
+  settings: BulkSettings,
+  callbacks: BulkCallbacks,
+  controller?: JobController,
+): Promise<void> => {
+  const limiter = new TokenBucket(settings.requestsPerMinute);
+
+  await runJob(tasks, async ({ origin, destination, options, optionsError }) => {
+    if (!origin || !destination) {
+      throw new Error('Missing origin or destination.');
+    }
+    if (optionsError) {
+      throw new Error(optionsError);
+    }
+    const locationError = validateLocation(parseLocation(origin)) ?? validateLocation(parseLocation(destination));
+    if (locationError) {
+      throw new Error(locationError);
+    }
+    // Cache hits skip the rate limiter; only real provider calls are throttled.
+    return getDrivingInfoCached(origin, destination, options, (from, to, tripOptions) => withRetry(async () => {
+      await limiter.acquire();
+      return getDrivingInfo(from, to, tripOptions);
+    }, { retries: settings.maxRetries }));
+  }, {
+    concurrency: settings.concurrency,
+    controller,
+    onSettled: (index, { result, error }) => {
+      const { row, origin, destination, values } = tasks[index];
+      if (result) {
+        callbacks.onResult({
+          row,
+          "Origin Pin Code": origin,
+          "Destination City": destination,
+          ...result.info,
+          fromCache: result.fromCache,
+          input: values,
+        });
+      } else {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        callbacks.onError({ row, origin, destination, message, input: values });
+      }
+    },
+  });
+};
+
+export { DEFAULT_BULK_SETTINGS, guessColumnMapping, buildBulkTasks, processBulkTasks };
@@ -0,0 +1,117 @@
+import type { BulkError, BulkRequest, BulkResultRow, BulkTask, BulkWorkerRequest, BulkWorkerResponse } from '../types';
+import { buildBulkTasks, processBulkTasks } from './bulkProcessor';
+import { JobController } from './jobRunner';
+import { countUncachedRoutes } from './routeCache';
+import { setActiveProvider } from './routingService';
+import { readTable } from './tableFormats';
+
+/**
+ * Web Worker that parses a bulk upload and routes its rows, so large files
+ * don't block the page. Started and driven by services/bulkWorkerClient.ts;
+ * see BulkWorkerRequest and BulkWorkerResponse for the messages.
+ */
+
+/** Progress and finished rows are posted at most this often. */
+const BATCH_INTERVAL_MS = 250;
+
+const controller = new JobController();
+
+const post = (message: BulkWorkerResponse) => self.postMessage(message);
+
+const postError = (error: unknown, tasks: BulkTask[]) => post({
+  type: 'error',
+  tasks,
+  name: error instanceof Error ? error.name : 'Error',
+  message: error instanceof Error ? error.message : 'An unexpected error occurred while processing the file.',
+});
+
+const readTasks = async ({ file, sheet, mapping, routeOptions }: BulkRequest): Promise<BulkTask[]> => {
+  const { rows } = await readTable(file, { sheet });
+  if (rows.length === 0) {
+    throw new Error('The file is empty or contains only a header.');
+  }
+  return buildBulkTasks(rows, mapping, routeOptions);
+};
+
+/**
+ * Runs every row not in `skipRows`. Outcomes are collected and posted in
+ * batches, so a run of tens of thousands of rows re-renders the page a few
+ * times a second rather than once per row.
+ */
+const run = async (request: Extract<BulkWorkerRequest, { type: 'start' }>) => {
+  let tasks: BulkTask[] = [];
+  try {
+    setActiveProvider(request.providerId);
+    tasks = await readTasks(request);
+    const skip = new Set(request.skipRows);
+    const pending = tasks.filter(task => !skip.has(task.row));
+
+    let processed = tasks.length - pending.length;
+    let results: BulkResultRow[] = [];
+    let errors: BulkError[] = [];
+    const flush = () => {
+      if (results.length > 0 || errors.length > 0) {
+        post({ type: 'row-result', results, errors });
+        results = [];
+        errors = [];
+      }
+      post({ type: 'progress', processed, total: tasks.length });
+    };
+
+    flush();
+    const timer = setInterval(flush, BATCH_INTERVAL_MS);
+    try {
+      await processBulkTasks(pending, request.settings, {
+        onResult: (result) => {
+          results.push(result);
+          processed++;
+        },
+        onError: (error) => {
+          errors.push(error);
+          processed++;
+        },
+      }, controller);
+    } finally {
+      clearInterval(timer);
+      flush();
+    }
+    post({ type: 'done', tasks, completed: !controller.isCancelled });
+  } catch (error) {
+    postError(error, tasks);
+  }
+};
+
+/**
+ * Counts the rows and the provider calls they would take after cache hits.
+ */
+const estimate = async (request: Extract<BulkWorkerRequest, { type: 'estimate' }>) => {
+  try {
+    setActiveProvider(request.providerId);
+    const tasks = await readTasks(request);
+    const calls = await countUncachedRoutes(tasks.filter(task => task.origin && task.destination && !task.optionsError));
+    post({ type: 'estimate', rows: tasks.length, calls });
+  } catch (error) {
+    postError(error, []);
+  }
+};
+
+self.addEventListener('message', (event: MessageEvent<BulkWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'start':
+      run(message);
+      break;
+    case 'estimate':
+      estimate(message);
+      break;
+    case 'pause':
+      controller.pause();
+      break;
+    case 'resume':
+      controller.resume();
+      break;
+    case 'cancel':
+      controller.cancel();
+      break;
+  }
+});
@@ -0,0 +1,135 @@
+import type { BulkError, BulkRequest, BulkResultRow, BulkSettings, BulkTask, BulkWorkerRequest, BulkWorkerResponse } from '../types';
+import { ConfigurationError, QuotaExceededError } from './errors';
+
+const createWorker = (): Worker => new Worker(new URL('./bulkWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Errors lose their class on the way out of the worker; the fatal ones are
+ * rebuilt so callers can tell them apart.
+ */
+const toError = ({ name, message }: { name: string; message: string }): Error => {
+  switch (name) {
+    case 'ConfigurationError':
+      return new ConfigurationError(message);
+    case 'QuotaExceededError':
+      return new QuotaExceededError(message);
+  }
+  return new Error(message);
+};
+
+interface BulkWorkerCallbacks {
+  onProgress: (processed: number, total: number) => void;
+  onRows: (results: BulkResultRow[], errors: BulkError[]) => void;
+}
+
+/**
+ * A bulk run in its own Web Worker, with the same pause, resume and cancel
+ * handle as JobController. Each run uses a fresh worker, ended when the run
+ * finishes.
+ */
+class BulkWorkerJob {
+  private readonly worker = createWorker();
+  private paused = false;
+  private cancelled = false;
+
+  /** Every row of the file, once the run has finished. */
+  tasks: BulkTask[] = [];
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  private send(message: BulkWorkerRequest): void {
+    this.worker.postMessage(message);
+  }
+
+  /**
+   * Parses `input` and looks up every row not in `skipRows`. Resolves with
+   * whether all of them were processed; rejects with the error that stopped
+   * the run, e.g. a ConfigurationError.
+   */
+  run(
+    input: BulkRequest,
+    settings: BulkSettings,
+    providerId: string,
+    skipRows: number[],
+    callbacks: BulkWorkerCallbacks,
+  ): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      this.worker.onmessage = (event: MessageEvent<BulkWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            callbacks.onProgress(message.processed, message.total);
+            break;
+          case 'row-result':
+            callbacks.onRows(message.results, message.errors);
+            break;
+          case 'done':
+            this.tasks = message.tasks;
+            this.worker.terminate();
+            resolve(message.completed);
+            break;
+          case 'error':
+            this.tasks = message.tasks;
+            this.worker.terminate();
+            reject(toError(message));
+            break;
+        }
+      };
+      this.worker.onerror = (event) => {
+        this.worker.terminate();
+        reject(new Error(event.message || 'The bulk worker failed to start.'));
+      };
+      this.send({ type: 'start', ...input, settings, providerId, skipRows });
+    });
+  }
+
+  pause(): void {
+    this.paused = true;
+    this.send({ type: 'pause' });
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.send({ type: 'resume' });
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    this.send({ type: 'cancel' });
+  }
+}
+
+/**
+ * Counts the rows of `input` and the provider calls they would take after
+ * cache hits, parsing the file in a worker. Aborting ends the worker; the
+ * promise then never settles.
+ */
+const estimateLookups = (input: BulkRequest, providerId: string, signal?: AbortSignal): Promise<{ rows: number; calls: number }> => {
+  const worker = createWorker();
+  signal?.addEventListener('abort', () => worker.terminate());
+  return new Promise((resolve, reject) => {
+    worker.onmessage = (event: MessageEvent<BulkWorkerResponse>) => {
+      const message = event.data;
+      worker.terminate();
+      if (message.type === 'estimate') {
+        resolve({ rows: message.rows, calls: message.calls });
+      } else if (message.type === 'error') {
+        reject(toError(message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The bulk worker failed to start.'));
+    };
+    const request: BulkWorkerRequest = { type: 'estimate', ...input, providerId };
+    worker.postMessage(request);
+  });
+};
+
+export { BulkWorkerJob, estimateLookups };
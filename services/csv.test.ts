@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { CsvParser, detectDelimiter, detectEncoding, readCsvFile, readCsvHeaders, streamCsvFile, toCsv } from './csv';
+
+const parse = (text: string, delimiter = ',') => {
+  const parser = new CsvParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+};
+
+describe('CsvParser', () => {
+  it('splits records and fields', () => {
+    expect(parse('a,b\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps delimiters, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parse('"Pune, MH","say ""hi""","two\nlines"')).toEqual([['Pune, MH', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('accepts CRLF, LF and lone CR line endings', () => {
+    expect(parse('a\r\nb\nc\rd')).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+
+  it('treats a CRLF split across chunks as one line break', () => {
+    const parser = new CsvParser();
+    const records = [...parser.push('a,b\r'), ...parser.push('\n1,2'), ...parser.end()];
+    expect(records).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('handles a quote split across chunks', () => {
+    const parser = new CsvParser();
+    const records = [...parser.push('"x"'), ...parser.push('"y"\n')];
+    expect(records).toEqual([['x"y']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parse('a,,c,')).toEqual([['a', '', 'c', '']]);
+  });
+
+  it('skips a byte order mark', () => {
+    expect(parse('\uFEFFOrigin,Destination')).toEqual([['Origin', 'Destination']]);
+  });
+
+  it('rejects input that ends inside a quoted field', () => {
+    const parser = new CsvParser();
+    parser.push('"unterminated');
+    expect(() => parser.end()).toThrow('ends inside a quoted field');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that gives the most fields on the first line', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\n1\t2')).toBe('\t');
+    expect(detectDelimiter('"x;y",b\n')).toBe(',');
+  });
+});
+
+describe('detectEncoding', () => {
+  it('reads byte order marks and falls back to Windows-1252 for invalid UTF-8', () => {
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+    expect(detectEncoding(new TextEncoder().encode('Pune'))).toBe('utf-8');
+    expect(detectEncoding(new Uint8Array([0x50, 0xe9, 0x20]))).toBe('windows-1252');
+  });
+});
+
+describe('reading files', () => {
+  it('round-trips what toCsv writes', async () => {
+    const rows = [['Origin', 'Note'], ['400001', 'has "quotes", commas\nand lines']];
+    const { headers, rows: read } = await readCsvFile(new Blob([toCsv(rows)]));
+    expect(headers).toEqual(rows[0]);
+    expect(read).toEqual(rows.slice(1));
+  });
+
+  it('skips blank lines', async () => {
+    const { rows } = await readCsvFile(new Blob(['a,b\n\n1,2\n,\n']));
+    expect(rows).toEqual([['1', '2']]);
+  });
+
+  it('reads a header row longer than one chunk', async () => {
+    const headers = Array.from({ length: 8000 }, (_, i) => `Column number ${i}`);
+    expect(await readCsvHeaders(new Blob([`${headers.join(',')}\n1,2`]))).toEqual(headers);
+  });
+
+  it('stops reading when the callback asks it to', async () => {
+    const batches: string[][][] = [];
+    const rows = Array.from({ length: 20000 }, (_, i) => `${i},x`).join('\n');
+    await streamCsvFile(new Blob([`a,b\n${rows}`]), {
+      onRecords: (batch) => {
+        batches.push(batch);
+        return false;
+      },
+    });
+    expect(batches).toHaveLength(1);
+  });
+
+  it('reads just the trimmed header row', async () => {
+    expect(await readCsvHeaders(new Blob([' Origin ;Destination\n1;2']))).toEqual(['Origin', 'Destination']);
+  });
+});
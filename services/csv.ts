@@ -0,0 +1,245 @@
+/**
+ * RFC 4180 CSV parsing and writing.
+ *
+ * The parser is incremental: feed it text with `push` as it arrives and it
+ * returns every record completed so far, so large files never have to be held
+ * in memory as one string. Quoted fields may contain delimiters, doubled
+ * quotes ("") and line breaks; CRLF, LF and lone CR line endings are accepted.
+ */
+
+type Delimiter = ',' | ';' | '\t';
+
+const CANDIDATE_DELIMITERS: Delimiter[] = [',', ';', '\t'];
+
+class CsvParser {
+  private readonly delimiter: string;
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  /** A quote inside a quoted field: either an escaped quote or the closing one. */
+  private pendingQuote = false;
+  /** The previous chunk ended in CR; swallow an LF that starts the next one. */
+  private pendingCr = false;
+  private atStart = true;
+
+  constructor(delimiter: string = ',') {
+    this.delimiter = delimiter;
+  }
+
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    let i = 0;
+    if (this.atStart && chunk.length > 0) {
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+      this.atStart = false;
+    }
+
+    for (; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (this.pendingCr) {
+        this.pendingCr = false;
+        if (char === '\n') continue;
+      }
+
+      if (this.pendingQuote) {
+        this.pendingQuote = false;
+        if (char === '"') {
+          this.field += '"';
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          this.pendingQuote = true;
+        } else {
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.field === '') {
+        this.inQuotes = true;
+      } else if (char === this.delimiter) {
+        this.record.push(this.field);
+        this.field = '';
+      } else if (char === '\n' || char === '\r') {
+        this.pendingCr = char === '\r';
+        records.push(this.endRecord());
+      } else {
+        this.field += char;
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Flushes the last record when the input does not end with a line break.
+   */
+  end(): string[][] {
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      throw new Error('The CSV file ends inside a quoted field.');
+    }
+    if (this.field !== '' || this.record.length > 0) {
+      return [this.endRecord()];
+    }
+    return [];
+  }
+
+  private endRecord(): string[] {
+    this.record.push(this.field);
+    const record = this.record;
+    this.field = '';
+    this.record = [];
+    return record;
+  }
+}
+
+/**
+ * Picks the delimiter that splits the first line of `sample` into the most
+ * fields, ignoring delimiters inside quotes.
+ */
+const detectDelimiter = (sample: string): Delimiter => {
+  let best: Delimiter = ',';
+  let bestCount = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const firstRecord = new CsvParser(delimiter).push(sample)[0];
+    const count = firstRecord ? firstRecord.length : 0;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/**
+ * Works out the text encoding from a byte order mark, falling back to
+ * Windows-1252 (what Excel writes on most Indian Windows installs) when the
+ * bytes are not valid UTF-8.
+ */
+const detectEncoding = (bytes: Uint8Array): string => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  try {
+    // stream: true so a multi-byte sequence cut off by the sample end is not an error.
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+const isBlankRecord = (record: string[]): boolean => record.every(field => field.trim() === '');
+
+interface CsvReadOptions {
+  /**
+   * Called with each batch of records as soon as they are parsed, header
+   * included. Returning false stops reading the rest of the file.
+   */
+  onRecords: (records: string[][]) => void | boolean;
+  delimiter?: Delimiter;
+}
+
+/**
+ * Streams a CSV file through the parser, detecting its encoding and (unless
+ * given) its delimiter from the first chunk. Blank lines are skipped. Only
+ * the records of the current chunk are held; what the callback keeps is up
+ * to it.
+ */
+const streamCsvFile = async (file: Blob, options: CsvReadOptions): Promise<void> => {
+  const reader = file.stream().getReader();
+  let decoder: TextDecoder | null = null;
+  let parser: CsvParser | null = null;
+
+  // False once the callback has asked to stop.
+  const emit = (records: string[][]): boolean => {
+    const kept = records.filter(record => !isBlankRecord(record));
+    return kept.length === 0 || options.onRecords(kept) !== false;
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    if (!decoder) {
+      decoder = new TextDecoder(detectEncoding(value.subarray(0, 4096)));
+    }
+    const text = decoder.decode(value, { stream: true });
+    if (!parser) {
+      parser = new CsvParser(options.delimiter ?? detectDelimiter(text));
+    }
+    if (!emit(parser.push(text))) {
+      await reader.cancel();
+      return;
+    }
+  }
+
+  if (decoder && parser) {
+    if (emit(parser.push(decoder.decode()))) emit(parser.end());
+  }
+};
+
+/**
+ * Reads a whole CSV file into its header row and data rows. The text is
+ * parsed chunk by chunk, but every row ends up in memory, as the bulk
+ * pipeline needs them all for the export; use streamCsvFile to handle rows
+ * as they arrive instead.
+ */
+const readCsvFile = async (file: Blob, delimiter?: Delimiter): Promise<{ headers: string[]; rows: string[][] }> => {
+  const records: string[][] = [];
+  await streamCsvFile(file, {
+    delimiter,
+    onRecords: (batch) => {
+      records.push(...batch);
+    },
+  });
+  const [headers = [], ...rows] = records;
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+/**
+ * Reads only the header row, for column mapping before the full parse. The
+ * file is read until the first record is complete, however long it is.
+ */
+const readCsvHeaders = async (file: Blob): Promise<string[]> => {
+  let headers: string[] = [];
+  await streamCsvFile(file, {
+    onRecords: ([first]) => {
+      headers = first.map(h => h.trim());
+      return false;
+    },
+  });
+  return headers;
+};
+
+/**
+ * Quotes a field when it contains a delimiter, quote or line break.
+ */
+const escapeCsvField = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",;\t\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatCsvRow = (values: unknown[]): string => values.map(escapeCsvField).join(',');
+
+const toCsv = (rows: unknown[][]): string => rows.map(formatCsvRow).join('\r\n');
+
+export type { Delimiter };
+export {
+  CsvParser,
+  detectDelimiter,
+  detectEncoding,
+  streamCsvFile,
+  readCsvFile,
+  readCsvHeaders,
+  escapeCsvField,
+  formatCsvRow,
+  toCsv,
+};
@@ -0,0 +1,90 @@
+/**
+ * Shared IndexedDB database. Each store is created in `upgrade`; bump
+ * DB_VERSION and add a step there when adding a store.
+ */
+const DB_NAME = 'pincode-distance-calculator';
+const DB_VERSION = 5;
+
+const STORES = {
+  jobs: 'jobs',
+  jobRows: 'jobRows',
+  routeCache: 'routeCache',
+  history: 'history',
+  favourites: 'favourites',
+  rateCards: 'rateCards',
+  usageLog: 'usageLog',
+  settings: 'settings',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.jobs, { keyPath: 'id' });
+    const jobRows = db.createObjectStore(STORES.jobRows, { keyPath: ['jobId', 'row'] });
+    jobRows.createIndex('jobId', 'jobId');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.routeCache, { keyPath: 'key' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.history, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    db.createObjectStore(STORES.favourites, { keyPath: 'key' });
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(STORES.rateCards, { keyPath: 'id' });
+  }
+  if (oldVersion < 5) {
+    db.createObjectStore(STORES.usageLog, { keyPath: 'id' }).createIndex('createdAt', 'createdAt');
+    db.createObjectStore(STORES.settings, { keyPath: 'key' });
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this environment.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+/**
+ * Runs `fn` inside a transaction on `storeName` and resolves with its result
+ * once the transaction has committed.
+ */
+const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+};
+
+export { STORES, openDb, promisify, withStore };
@@ -0,0 +1,62 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SingleRequest } from '../types';
+import { buildDeepLink, parseDeepLink } from './deepLink';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+
+const request: SingleRequest = {
+  origin: '400001',
+  destination: 'Navi Mumbai',
+  options: { vehicle: 'truck', avoidTolls: true, avoidHighways: true, departureTime: '2025-01-31T08:30' },
+};
+
+describe('deep links', () => {
+  it('round-trip a single calculation', () => {
+    const link = buildDeepLink('single', request);
+    expect(link).toBe('?mode=single&from=400001&to=Navi+Mumbai&vehicle=truck&avoid=tolls%2Chighways&depart=2025-01-31T08%3A30');
+    expect(parseDeepLink(link)).toEqual({ mode: 'single', request, autoRun: false });
+  });
+
+  it('leave default options out and round-trip them', () => {
+    const plain = { ...request, options: DEFAULT_ROUTE_OPTIONS };
+    expect(buildDeepLink('single', plain)).toBe('?mode=single&from=400001&to=Navi+Mumbai');
+    expect(parseDeepLink(buildDeepLink('single', plain)).request).toEqual(plain);
+  });
+
+  it('round-trip a tab on its own', () => {
+    expect(parseDeepLink(buildDeepLink('matrix'))).toEqual({ mode: 'matrix', request: null, autoRun: false });
+  });
+});
+
+describe('parseDeepLink', () => {
+  it('only calculates when asked with run=1', () => {
+    expect(parseDeepLink('?from=400001&to=Pune').autoRun).toBe(false);
+    expect(parseDeepLink('?from=400001&to=Pune&run=0').autoRun).toBe(false);
+    expect(parseDeepLink('?from=400001&to=Pune&run=yes').autoRun).toBe(false);
+    expect(parseDeepLink('?from=400001&to=Pune&run=1').autoRun).toBe(true);
+    expect(parseDeepLink('?mode=single&run=1').autoRun).toBe(false);
+  });
+
+  it('opens the single tab for a pair without a mode', () => {
+    expect(parseDeepLink('?from=400001&to=Pune').mode).toBe('single');
+    expect(parseDeepLink('').mode).toBeNull();
+  });
+
+  it('needs both ends of the pair', () => {
+    expect(parseDeepLink('?from=400001').request).toBeNull();
+    expect(parseDeepLink('?from=400001&to=%20%20').request).toBeNull();
+  });
+
+  it('falls back to the default options when one is unreadable', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseDeepLink('?from=400001&to=Pune&vehicle=boat&avoid=tolls').request?.options).toEqual(DEFAULT_ROUTE_OPTIONS);
+    expect(parseDeepLink('?from=400001&to=Pune&depart=tomorrow').request?.options).toEqual(DEFAULT_ROUTE_OPTIONS);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('ignores unknown avoid values and reads known ones in any case', () => {
+    expect(parseDeepLink('?from=400001&to=Pune&avoid=ferries, HIGHWAYS').request?.options).toEqual({
+      ...DEFAULT_ROUTE_OPTIONS, avoidHighways: true,
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import type { SingleRequest } from '../types';
+import { DEFAULT_ROUTE_OPTIONS, parseRouteOptions } from './routeOptions';
+
+/**
+ * What a link restores: the tab, and for single calculations the pair and
+ * options. `autoRun` is true only when the link asks to calculate straight away.
+ */
+interface DeepLink {
+  mode: string | null;
+  request: SingleRequest | null;
+  autoRun: boolean;
+}
+
+/**
+ * Reads a query string such as
+ * `?mode=single&from=400001&to=Pune&vehicle=truck&avoid=tolls,highways&depart=08:30`.
+ * Unreadable options fall back to the defaults rather than breaking the link.
+ * A link only fills in the form unless it has `run=1`, so opening one never
+ * spends on a lookup without the user asking.
+ */
+const parseDeepLink = (search: string): DeepLink => {
+  const params = new URLSearchParams(search);
+  const origin = params.get('from')?.trim() ?? '';
+  const destination = params.get('to')?.trim() ?? '';
+  const avoid = (params.get('avoid') ?? '').toLowerCase().split(',').map(s => s.trim());
+
+  let request: SingleRequest | null = null;
+  if (origin && destination) {
+    let options = DEFAULT_ROUTE_OPTIONS;
+    try {
+      options = parseRouteOptions({
+        vehicle: params.get('vehicle') ?? undefined,
+        avoidTolls: avoid.includes('tolls') ? 'yes' : undefined,
+        avoidHighways: avoid.includes('highways') ? 'yes' : undefined,
+        departureTime: params.get('depart') ?? undefined,
+      });
+    } catch (err) {
+      console.warn('Ignoring route options in link:', err);
+    }
+    request = { origin, destination, options };
+  }
+
+  return {
+    mode: params.get('mode') ?? (request ? 'single' : null),
+    request,
+    autoRun: request !== null && params.get('run') === '1',
+  };
+};
+
+/**
+ * Query string for a tab and, optionally, a single calculation. Default
+ * options are left out to keep links short.
+ */
+const buildDeepLink = (mode: string, request?: SingleRequest | null): string => {
+  const params = new URLSearchParams({ mode });
+  if (request) {
+    params.set('from', request.origin);
+    params.set('to', request.destination);
+    const { vehicle, avoidTolls, avoidHighways, departureTime } = request.options;
+    if (vehicle !== DEFAULT_ROUTE_OPTIONS.vehicle) params.set('vehicle', vehicle);
+    const avoid = [avoidTolls && 'tolls', avoidHighways && 'highways'].filter(Boolean);
+    if (avoid.length > 0) params.set('avoid', avoid.join(','));
+    if (departureTime) params.set('depart', departureTime);
+  }
+  return `?${params.toString()}`;
+};
+
+/** Absolute link to a calculation, for sharing. */
+const deepLinkUrl = (mode: string, request?: SingleRequest | null): string =>
+  `${window.location.origin}${window.location.pathname}${buildDeepLink(mode, request)}`;
+
+/**
+ * Adds a browser history entry for the new state so back and forward move
+ * between calculations. When the URL already describes it (perhaps spelled
+ * differently) the entry is rewritten in place instead.
+ */
+const pushDeepLink = (mode: string, request?: SingleRequest | null): void => {
+  const search = buildDeepLink(mode, request);
+  if (window.location.search === search) return;
+  const current = parseDeepLink(window.location.search);
+  if (current.mode && buildDeepLink(current.mode, current.request) === search) {
+    window.history.replaceState(null, '', search);
+  } else {
+    window.history.pushState(null, '', search);
+  }
+};
+
+export { parseDeepLink, buildDeepLink, deepLinkUrl, pushDeepLink };
+export type { DeepLink };
@@ -0,0 +1,99 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { DistanceMatrixResult, MatrixCell } from '../types';
+import { DEFAULT_BULK_SETTINGS } from './bulkProcessor';
+import { MAX_MATRIX_PAIRS, computeDistanceMatrix, matrixToTable, nearestOrigins, uniqueLocations } from './distanceMatrix';
+import { NO_USAGE_TOTAL } from './usage';
+
+/** Distances encode the pair, so a transposed cell is easy to spot. */
+const DISTANCES: Record<string, number> = {
+  '110001>Pune': 1400, '400001>Pune': 150, '600001>Pune': 1180,
+  '110001>Jaipur': 280, '400001>Jaipur': 1150, '600001>Jaipur': 2000,
+};
+
+vi.mock('./routeCache', () => ({
+  getDrivingInfoCached: vi.fn(async (origin: string, destination: string) => {
+    const distance = DISTANCES[`${origin}>${destination}`];
+    if (distance === undefined) throw new Error('No route found.');
+    // Routes from Delhi come from the provider; the rest are cache hits.
+    const usage = origin === '110001' ? { promptTokens: 100, outputTokens: 300 } : undefined;
+    return { info: { distance, travelTime: '', routeSummary: '', usage }, fromCache: !usage };
+  }),
+}));
+
+const cell = (distance?: number): MatrixCell =>
+  distance === undefined ? { error: 'No route found.' } : { info: { distance, travelTime: '', routeSummary: '' } };
+
+/** Two origins (columns) and three destinations (rows). */
+const matrix: DistanceMatrixResult = {
+  origins: ['Delhi', 'Mumbai'],
+  destinations: ['Pune', 'Jaipur', 'Atlantis'],
+  cells: [
+    [cell(1400), cell(150)],
+    [cell(280), cell(1150)],
+    [cell(), cell()],
+  ],
+  usage: NO_USAGE_TOTAL,
+};
+
+describe('uniqueLocations', () => {
+  it('drops blanks and repeats, keeping the first spelling', () => {
+    expect(uniqueLocations([' Pune ', '', 'pune', 'New  Delhi', 'new delhi', '  '])).toEqual(['Pune', 'New  Delhi']);
+  });
+
+  it('keeps the input order', () => {
+    expect(uniqueLocations(['400001', '110001', '400001'])).toEqual(['400001', '110001']);
+  });
+});
+
+describe('nearestOrigins', () => {
+  it('picks the closest origin for each destination', () => {
+    expect(nearestOrigins(matrix)).toEqual([1, 0, -1]);
+  });
+
+  it('skips failed pairs', () => {
+    const partial = { ...matrix, cells: [[cell(), cell(900)], [cell(300), cell()], [cell(), cell()]] };
+    expect(nearestOrigins(partial)).toEqual([1, 0, -1]);
+  });
+});
+
+describe('matrixToTable', () => {
+  it('writes a row per destination and a column per origin', () => {
+    expect(matrixToTable(matrix)).toEqual([
+      ['Destination \\ Origin', 'Delhi', 'Mumbai', 'Nearest Origin'],
+      ['Pune', 1400, 150, 'Mumbai'],
+      ['Jaipur', 280, 1150, 'Delhi'],
+      ['Atlantis', '', '', ''],
+    ]);
+  });
+});
+
+describe('computeDistanceMatrix', () => {
+  it('stores the route from origins[o] to destinations[d] in cells[d][o]', async () => {
+    const result = await computeDistanceMatrix(['110001', '400001', '600001'], ['Pune', 'Jaipur'], DEFAULT_BULK_SETTINGS);
+    expect(result.cells).toHaveLength(2);
+    expect(result.cells.map(row => row.map(c => c.info?.distance))).toEqual([
+      [1400, 150, 1180],
+      [280, 1150, 2000],
+    ]);
+  });
+
+  it('totals the usage of the lookups that called the provider', async () => {
+    const result = await computeDistanceMatrix(['110001', '400001', '600001'], ['Pune', 'Jaipur'], DEFAULT_BULK_SETTINGS);
+    expect(result.usage).toEqual({ promptTokens: 200, outputTokens: 600, calls: 2 });
+  });
+
+  it('records failed pairs in their cell and reports progress', async () => {
+    const onProgress = vi.fn();
+    const result = await computeDistanceMatrix(['110001', '400001'], ['Pune', 'Atlantis'], DEFAULT_BULK_SETTINGS, onProgress);
+    expect(result.cells[1][0].error).toBe('No route found.');
+    expect(result.cells[0][1].info?.distance).toBe(150);
+    expect(onProgress).toHaveBeenCalledTimes(4);
+    expect(onProgress).toHaveBeenLastCalledWith(4, 4);
+  });
+
+  it('rejects empty lists and matrices over the pair limit', async () => {
+    await expect(computeDistanceMatrix([' '], ['Pune'], DEFAULT_BULK_SETTINGS)).rejects.toThrow('at least one origin');
+    const many = Array.from({ length: MAX_MATRIX_PAIRS + 1 }, (_, i) => `Place ${i}`);
+    await expect(computeDistanceMatrix(many, ['Pune'], DEFAULT_BULK_SETTINGS)).rejects.toThrow('limited to');
+  });
+});
@@ -0,0 +1,109 @@
+import type { BulkSettings, BulkTask, DistanceMatrixResult, MatrixCell } from '../types';
+import { processBulkTasks } from './bulkProcessor';
+import { JobController } from './jobRunner';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+import { NO_USAGE_TOTAL, addCall } from './usage';
+
+/** Upper bound on origin × destination pairs in one matrix. */
+const MAX_MATRIX_PAIRS = 2500;
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Removes blanks and repeated entries (compared case-insensitively), keeping
+ * the first spelling of each.
+ */
+const uniqueLocations = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  const unique: string[] = [];
+  for (const value of values.map(v => v.trim()).filter(Boolean)) {
+    const key = normalize(value);
+    if (!seen.has(key)) {
+      seen.add(key);
+      unique.push(value);
+    }
+  }
+  return unique;
+};
+
+/**
+ * Computes every origin × destination route through the bulk pipeline, so
+ * pairs share its rate limiting, retries and route cache. Duplicate origins
+ * and destinations are looked up once.
+ */
+const computeDistanceMatrix = async (
+  originList: string[],
+  destinationList: string[],
+  settings: BulkSettings,
+  onProgress?: (processed: number, total: number) => void,
+  controller?: JobController,
+): Promise<DistanceMatrixResult> => {
+  const origins = uniqueLocations(originList);
+  const destinations = uniqueLocations(destinationList);
+  if (origins.length === 0 || destinations.length === 0) {
+    throw new Error('Please enter at least one origin and one destination.');
+  }
+  const total = origins.length * destinations.length;
+  if (total > MAX_MATRIX_PAIRS) {
+    throw new Error(`A matrix is limited to ${MAX_MATRIX_PAIRS.toLocaleString('en-IN')} pairs; this one has ${total.toLocaleString('en-IN')}.`);
+  }
+
+  const cells: MatrixCell[][] = destinations.map(() => origins.map(() => ({})));
+  const tasks: BulkTask[] = [];
+  destinations.forEach((destination, d) => {
+    origins.forEach((origin, o) => {
+      tasks.push({ row: d * origins.length + o, origin, destination, values: [origin, destination], options: DEFAULT_ROUTE_OPTIONS });
+    });
+  });
+
+  let processed = 0;
+  let usage = NO_USAGE_TOTAL;
+  const cellFor = (row: number) => cells[Math.floor(row / origins.length)][row % origins.length];
+  await processBulkTasks(tasks, settings, {
+    onResult: (result) => {
+      cellFor(result.row).info = result;
+      usage = addCall(usage, result.usage);
+      onProgress?.(++processed, total);
+    },
+    onError: (error) => {
+      cellFor(error.row).error = error.message;
+      onProgress?.(++processed, total);
+    },
+  }, controller);
+
+  return { origins, destinations, cells, usage };
+};
+
+/**
+ * Index of the origin closest to each destination, or -1 when no route to
+ * that destination succeeded.
+ */
+const nearestOrigins = (matrix: DistanceMatrixResult): number[] => {
+  return matrix.cells.map(row => {
+    let nearest = -1;
+    row.forEach((cell, o) => {
+      if (cell.info && (nearest === -1 || cell.info.distance < row[nearest].info!.distance)) {
+        nearest = o;
+      }
+    });
+    return nearest;
+  });
+};
+
+/**
+ * The matrix as a table: one row per destination, one distance column per
+ * origin, then the nearest origin. Failed pairs are left blank.
+ */
+const matrixToTable = (matrix: DistanceMatrixResult): unknown[][] => {
+  const nearest = nearestOrigins(matrix);
+  return [
+    ['Destination \\ Origin', ...matrix.origins, 'Nearest Origin'],
+    ...matrix.destinations.map((destination, d) => [
+      destination,
+      ...matrix.cells[d].map(cell => cell.info?.distance ?? ''),
+      nearest[d] === -1 ? '' : matrix.origins[nearest[d]],
+    ]),
+  ];
+};
+
+export { MAX_MATRIX_PAIRS, uniqueLocations, computeDistanceMatrix, nearestOrigins, matrixToTable };
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigurationError, RoutingError, TransientRoutingError, isFatalError, isRetryableError } from './errors';
+
+describe('routing errors', () => {
+  it('keep the cause they were given', () => {
+    const cause = new Error('socket hang up');
+    expect(new RoutingError('failed', { cause }).cause).toBe(cause);
+    expect(new TransientRoutingError('busy', { cause, retryAfterMs: 5 })).toMatchObject({ cause, retryAfterMs: 5 });
+  });
+
+  it('are told apart by kind', () => {
+    expect(isRetryableError(new TransientRoutingError('busy'))).toBe(true);
+    expect(isRetryableError(new RoutingError('no route'))).toBe(false);
+    expect(isFatalError(new ConfigurationError('bad key'))).toBe(true);
+    expect(new ConfigurationError('bad key')).toBeInstanceOf(RoutingError);
+  });
+});
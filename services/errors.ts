@@ -0,0 +1,54 @@
+/**
+ * Base class for failures while looking up a route. A plain RoutingError
+ * fails only the row it belongs to and is not worth retrying.
+ */
+class RoutingError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'RoutingError';
+  }
+}
+
+/**
+ * A transient failure (rate limiting, an overloaded or unreachable service)
+ * that is likely to succeed if retried later.
+ */
+class TransientRoutingError extends RoutingError {
+  /** Delay requested by the service (e.g. a Retry-After header), in ms. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options?: { cause?: unknown; retryAfterMs?: number }) {
+    super(message, options);
+    this.name = 'TransientRoutingError';
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+/**
+ * The provider is misconfigured (missing or rejected API key, permissions).
+ * Every further call would fail the same way, so bulk jobs stop on it.
+ */
+class ConfigurationError extends RoutingError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ConfigurationError';
+  }
+}
+
+/**
+ * The daily request quota is used up. Like a configuration error it stops
+ * bulk jobs, but its message is meant for the user.
+ */
+class QuotaExceededError extends RoutingError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+const isRetryableError = (error: unknown): error is TransientRoutingError => error instanceof TransientRoutingError;
+
+const isFatalError = (error: unknown): error is ConfigurationError | QuotaExceededError =>
+  error instanceof ConfigurationError || error instanceof QuotaExceededError;
+
+export { RoutingError, TransientRoutingError, ConfigurationError, QuotaExceededError, isRetryableError, isFatalError };
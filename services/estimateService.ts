@@ -0,0 +1,62 @@
+import type { Coordinates, DrivingInfo, Location, RouteOptions, RoutingProvider } from '../types';
+import { ROAD_FACTOR, estimateRoadDistance, findPlaces, haversineDistance, lookupPinCode } from './gazetteer';
+import { RoutingError } from './errors';
+import { speedFactor } from './routeOptions';
+import { formatTravelTime } from './travelTime';
+
+/** Average speed of a car on estimated routes, in km/h. */
+const AVERAGE_SPEED = 50;
+
+const resolvePlace = (location: Location): Coordinates => {
+  if (location.kind === 'coordinates') {
+    return location.coordinates;
+  }
+  if (location.kind === 'pincode') {
+    const record = lookupPinCode(location.pinCode);
+    if (!record) {
+      throw new RoutingError(`Pin code ${location.pinCode} is not in the offline gazetteer, so its distance cannot be estimated.`);
+    }
+    return record;
+  }
+
+  const query = location.name;
+  const matches = findPlaces(query);
+  if (matches.length === 0) {
+    throw new RoutingError(`"${query}" is not in the offline gazetteer, so its distance cannot be estimated.`);
+  }
+  const states = new Set(matches.map(m => m.state));
+  if (states.size > 1) {
+    throw new RoutingError(`"${query}" is ambiguous (${Array.from(states).join(', ')}). Please use a pin code instead.`);
+  }
+  return matches[0];
+};
+
+/**
+ * Straight-line fallback used when no routing provider is available: the
+ * haversine distance between the two post offices (or coordinates), scaled
+ * by a road factor.
+ */
+const getDrivingInfo = async (origin: Location, destination: Location, options: RouteOptions): Promise<DrivingInfo> => {
+  const from = resolvePlace(origin);
+  const to = resolvePlace(destination);
+
+  const straightLine = haversineDistance(from, to);
+  const distance = Math.round(estimateRoadDistance(from, to));
+  const minutes = Math.max(5, Math.round((distance / (AVERAGE_SPEED * speedFactor(options))) * 60));
+
+  return {
+    distance,
+    travelTime: formatTravelTime(minutes),
+    durationMinutes: minutes,
+    routeSummary: `Estimate: ${Math.round(straightLine)} km straight line × ${ROAD_FACTOR} road factor`,
+  };
+};
+
+const estimateProvider: RoutingProvider = {
+  id: 'estimate',
+  name: 'Straight-line estimate',
+  isAvailable: () => true,
+  getDrivingInfo,
+};
+
+export { estimateProvider };
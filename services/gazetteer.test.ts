@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { haversineDistance, lookupPinCode, resolvePlace, unverifiedPinCodeWarning, validatePinCode } from './gazetteer';
+
+describe('validatePinCode', () => {
+  it('accepts pin codes in the gazetteer', () => {
+    expect(validatePinCode('110001')).toBeNull();
+  });
+
+  it('rejects malformed, unissued and Army Postal Service codes', () => {
+    expect(validatePinCode('11000')).toMatch('6-digit');
+    expect(validatePinCode('290001')).toMatch('does not exist');
+    expect(validatePinCode('990001')).toMatch('Army Postal Service');
+  });
+
+  it('lets unlisted codes in a postal circle through', () => {
+    expect(validatePinCode('400999')).toBeNull();
+  });
+});
+
+describe('unverifiedPinCodeWarning', () => {
+  it('flags valid codes missing from the gazetteer', () => {
+    expect(unverifiedPinCodeWarning('400999')).toMatch('could not be verified');
+  });
+
+  it('says nothing about listed or invalid codes', () => {
+    expect(unverifiedPinCodeWarning('110001')).toBeNull();
+    expect(unverifiedPinCodeWarning('11000')).toBeNull();
+  });
+});
+
+describe('resolvePlace', () => {
+  it('resolves pin codes and place names', () => {
+    expect(resolvePlace('110001')).toBe(lookupPinCode('110001'));
+    expect(resolvePlace('Pune')?.state).toBe('Maharashtra');
+  });
+
+  it('leaves names found in several states unresolved', () => {
+    expect(resolvePlace('Aurangabad')).toBeUndefined();
+    expect(resolvePlace('Aurangabad, Bihar')?.state).toBe('Bihar');
+  });
+});
+
+describe('haversineDistance', () => {
+  it('measures the great-circle distance in kilometres', () => {
+    const delhi = { latitude: 28.6139, longitude: 77.209 };
+    const mumbai = { latitude: 19.076, longitude: 72.8777 };
+    expect(haversineDistance(delhi, mumbai)).toBeCloseTo(1153, -1);
+    expect(haversineDistance(delhi, delhi)).toBe(0);
+  });
+});
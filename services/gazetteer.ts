@@ -0,0 +1,193 @@
+import type { Coordinates, PinCodeRecord, Place } from '../types';
+import { PIN_CODE_ROWS } from '../data/pincodes';
+import { PLACE_ALIASES } from '../data/placeAliases';
+
+/** Typical ratio between road distance and great-circle distance in India. */
+const ROAD_FACTOR = 1.3;
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * The first two digits of a pin code identify the postal circle. Anything
+ * outside these ranges has never been issued; 90-99 is the Army Postal
+ * Service, whose field post offices have no fixed location.
+ */
+const POSTAL_CIRCLE_RANGES: Array<[number, number]> = [
+  [11, 19], [20, 28], [30, 34], [36, 39], [40, 49],
+  [50, 53], [56, 59], [60, 64], [67, 69], [70, 79], [80, 85],
+];
+
+let byPinCode = new Map<string, PinCodeRecord>();
+let byPlace = new Map<string, PinCodeRecord[]>();
+let places: Place[] = [];
+let placeIds = new Set<string>();
+let states = new Set<string>();
+let isComplete = false;
+
+const placeKey = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const addPlace = (name: string, record: PinCodeRecord, alias?: string) => {
+  const key = placeKey(alias ?? name);
+  const records = byPlace.get(key) ?? [];
+  if (records.some(r => r.pinCode === record.pinCode)) {
+    return;
+  }
+  records.push(record);
+  byPlace.set(key, records);
+  // One entry per name and state, so a town that is also its district's name is listed once.
+  const placeId = `${key}|${record.state}`;
+  if (!placeIds.has(placeId)) {
+    placeIds.add(placeId);
+    places.push({ name, state: record.state, record, alias });
+  }
+};
+
+/**
+ * Replaces the gazetteer contents. Pass `complete: true` when loading the full
+ * India Post directory so that unknown pin codes are rejected outright rather
+ * than only range-checked.
+ */
+const loadGazetteer = (records: PinCodeRecord[], options: { complete?: boolean } = {}): void => {
+  byPinCode = new Map();
+  byPlace = new Map();
+  places = [];
+  placeIds = new Set();
+  states = new Set(records.map(r => r.state.toLowerCase()));
+  for (const record of records) {
+    byPinCode.set(record.pinCode, record);
+    addPlace(record.officeName, record);
+    addPlace(record.district, record);
+  }
+  for (const [alias, name] of Object.entries(PLACE_ALIASES)) {
+    for (const record of byPlace.get(placeKey(name)) ?? []) {
+      addPlace(name, record, alias);
+    }
+  }
+  isComplete = !!options.complete;
+};
+
+loadGazetteer(PIN_CODE_ROWS.map(([pinCode, officeName, district, state, latitude, longitude]) => ({
+  pinCode, officeName, district, state, latitude, longitude,
+})));
+
+const lookupPinCode = (pinCode: string): PinCodeRecord | undefined => byPinCode.get(pinCode.trim());
+
+/**
+ * Splits a trailing state off a place name: 'Aurangabad, Bihar' gives
+ * { name: 'Aurangabad', state: 'bihar' }. Only known states are split off.
+ */
+const splitStateQualifier = (value: string): { name: string; state?: string } => {
+  const comma = value.lastIndexOf(',');
+  if (comma !== -1) {
+    const state = placeKey(value.slice(comma + 1));
+    if (states.has(state)) {
+      return { name: value.slice(0, comma), state };
+    }
+  }
+  return { name: value };
+};
+
+/**
+ * Finds post offices whose office or district name, or an alias of it,
+ * matches `name`. A trailing ', State' narrows the matches to that state.
+ */
+const findPlaces = (name: string): PinCodeRecord[] => {
+  const query = splitStateQualifier(name);
+  const matches = byPlace.get(placeKey(query.name)) ?? [];
+  return query.state ? matches.filter(r => r.state.toLowerCase() === query.state) : matches;
+};
+
+/**
+ * Every named place, for search and autocomplete.
+ */
+const listPlaces = (): Place[] => places;
+
+/**
+ * Resolves a pin code or place name to a single post office. Returns
+ * undefined when it is unknown, or when the name matches places in more than
+ * one state.
+ */
+const resolvePlace = (value: string): PinCodeRecord | undefined => {
+  const query = value.trim();
+  if (/^\d{6}$/.test(query)) {
+    return lookupPinCode(query);
+  }
+  const matches = findPlaces(query);
+  return new Set(matches.map(m => m.state)).size === 1 ? matches[0] : undefined;
+};
+
+const listPinCodes = (): PinCodeRecord[] => Array.from(byPinCode.values());
+
+/**
+ * Checks that a pin code could exist. Returns an error message, or null when
+ * valid. Unless the full directory is loaded, a well-formed code in a postal
+ * circle's range passes even when it is not in the gazetteer, so it may
+ * still be a typo; see unverifiedPinCodeWarning.
+ */
+const validatePinCode = (pinCode: string): string | null => {
+  const value = pinCode.trim();
+  if (!/^\d{6}$/.test(value)) {
+    return 'Please enter a valid 6-digit pin code.';
+  }
+  if (byPinCode.has(value)) {
+    return null;
+  }
+  const circle = Number(value.slice(0, 2));
+  if (circle >= 90) {
+    return `Pin code ${value} belongs to the Army Postal Service and has no fixed location.`;
+  }
+  if (!POSTAL_CIRCLE_RANGES.some(([min, max]) => circle >= min && circle <= max)) {
+    return `Pin code ${value} does not exist.`;
+  }
+  if (isComplete) {
+    return `Pin code ${value} was not found in the pin code directory.`;
+  }
+  return null;
+};
+
+/**
+ * A warning for a valid pin code that is not in the gazetteer, which could
+ * therefore not be checked for typos, or null when it is listed.
+ */
+const unverifiedPinCodeWarning = (pinCode: string): string | null => {
+  const value = pinCode.trim();
+  if (byPinCode.has(value) || validatePinCode(value)) {
+    return null;
+  }
+  return `Pin code ${value} is not in the offline gazetteer, so it could not be verified.`;
+};
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance in kilometres.
+ */
+const haversineDistance = (from: Coordinates, to: Coordinates): number => {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Rough road distance in kilometres: the straight-line distance scaled by a
+ * road factor.
+ */
+const estimateRoadDistance = (from: Coordinates, to: Coordinates, roadFactor = ROAD_FACTOR): number => {
+  return haversineDistance(from, to) * roadFactor;
+};
+
+export {
+  ROAD_FACTOR,
+  loadGazetteer,
+  lookupPinCode,
+  splitStateQualifier,
+  findPlaces,
+  listPlaces,
+  resolvePlace,
+  listPinCodes,
+  validatePinCode,
+  unverifiedPinCodeWarning,
+  haversineDistance,
+  estimateRoadDistance,
+};
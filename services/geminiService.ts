@@ -1,13 +1,60 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import type { DrivingInfo } from '../types';
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import type { DrivingInfo, Location, RouteOptions, RoutingProvider } from '../types';
+import { ConfigurationError, RoutingError, TransientRoutingError } from './errors';
+import { describeLocation } from './location';
+import { VEHICLES } from './routeOptions';
 
-const getDrivingInfo = async (origin: string, destination: string): Promise<DrivingInfo> => {
+const TRANSIENT_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Maps SDK and network failures onto the routing error classes so callers can
+ * tell a bad row from a rate limit from a broken API key.
+ */
+const toRoutingError = (error: unknown): RoutingError => {
+  if (error instanceof RoutingError) {
+    return error;
+  }
+  if (error instanceof ApiError) {
+    if (error.status === 401 || error.status === 403 || /api key/i.test(error.message)) {
+      return new ConfigurationError('There is an issue with the API configuration. Please try again later.', { cause: error });
+    }
+    if (TRANSIENT_STATUSES.has(error.status)) {
+      return new TransientRoutingError(`The routing service is busy (HTTP ${error.status}).`, { cause: error });
+    }
+    return new RoutingError(error.message, { cause: error });
+  }
+  if (error instanceof SyntaxError) {
+    return new RoutingError('Could not read the route returned by the API.', { cause: error });
+  }
+  if (error instanceof TypeError) {
+    // fetch() rejects with a TypeError when the network is unreachable.
+    return new TransientRoutingError('Could not reach the routing service.', { cause: error });
+  }
+  return new RoutingError(error instanceof Error ? error.message : 'Unknown error', { cause: error });
+};
+
+/**
+ * The trip conditions as a sentence for the prompt.
+ */
+const describeTrip = (options: RouteOptions): string => {
+  const avoid = [options.avoidTolls && 'toll roads', options.avoidHighways && 'highways'].filter(Boolean);
+  return [
+    `The trip is made by ${VEHICLES[options.vehicle].description}.`,
+    avoid.length > 0 ? `The route must avoid ${avoid.join(' and ')}.` : '',
+    options.departureTime ? `Departure is at ${options.departureTime.replace('T', ' ')} local time; account for typical traffic then.` : '',
+  ].filter(Boolean).join(' ');
+};
+
+const getDrivingInfo = async (origin: Location, destination: Location, options: RouteOptions): Promise<DrivingInfo> => {
+  if (!process.env.API_KEY) {
+    throw new ConfigurationError('There is an issue with the API configuration. Please try again later.');
+  }
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   try {
     const response = await ai.models.generateContent({
       model: 'gemini-2.5-flash',
-      contents: `Calculate the driving distance in kilometers, estimated travel time, and the main route summary between ${origin}, India and ${destination}, India.`,
+      contents: `Calculate the driving distance in kilometers, estimated travel time, and the main route summary between ${describeLocation(origin)} and ${describeLocation(destination)}. ${describeTrip(options)}`,
       config: {
         systemInstruction: "You are a route calculation expert. Provide the driving distance, estimated time, and a brief route summary. Respond ONLY with a clean JSON object containing 'distance' (number in km), 'travelTime' (string, e.g., '2 hours 59 mins'), and 'routeSummary' (string, e.g., 'via NH48'). Do not add explanations.",
         responseMimeType: "application/json",
@@ -20,7 +67,7 @@ const getDrivingInfo = async (origin: string, destination: string): Promise<Driv
             },
             travelTime: {
               type: Type.STRING,
-              description: "Estimated travel time by car."
+              description: "Estimated travel time for the given vehicle."
             },
             routeSummary: {
               type: Type.STRING,
@@ -34,23 +81,36 @@ const getDrivingInfo = async (origin: string, destination: string): Promise<Driv
     
     const jsonString = response.text.trim();
     if (!jsonString) {
-      throw new Error(`Could not find a route. The API returned an empty response.`);
+      throw new RoutingError(`Could not find a route. The API returned an empty response.`);
     }
 
     const data: DrivingInfo = JSON.parse(jsonString);
 
     if (!data?.distance || !data?.travelTime || !data?.routeSummary) {
-        throw new Error(`Could not determine a valid route. The location may be invalid or too ambiguous.`);
+        throw new RoutingError(`Could not determine a valid route. The location may be invalid or too ambiguous.`);
     }
 
-    return data;
+    const usage = response.usageMetadata;
+    return {
+      ...data,
+      usage: {
+        promptTokens: usage?.promptTokenCount ?? 0,
+        outputTokens: (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0),
+      },
+    };
 
   } catch (error) {
-    console.error(`Error fetching driving info for "${origin}" to "${destination}":`, error);
-    // Rethrow original error for UI to handle specific cases like invalid API keys.
-    throw error;
+    throw toRoutingError(error);
   }
 };
 
+const geminiProvider: RoutingProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  isAvailable: () => !!process.env.API_KEY,
+  usesTokens: true,
+  getDrivingInfo,
+};
+
 
-export { getDrivingInfo };
\ No newline at end of file
+export { getDrivingInfo, geminiProvider };
@@ -0,0 +1,124 @@
+import type { BulkHistoryEntry, FavouritePair, HistoryEntry, SingleHistoryEntry, SingleRequest } from '../types';
+import { STORES, promisify, withStore } from './db';
+import { locationKey, parseLocation } from './location';
+import { routeOptionsKey } from './routeOptions';
+
+/** Oldest entries beyond this many are dropped. */
+const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * Bulk entries keep their uploaded file for re-runs, but only this many of
+ * the newest; older ones drop it so spreadsheets don't pile up in IndexedDB.
+ */
+const MAX_BULK_FILES = 10;
+
+type NewHistoryEntry = Omit<SingleHistoryEntry, 'id' | 'createdAt'> | Omit<BulkHistoryEntry, 'id' | 'createdAt'>;
+
+/**
+ * Identifies an origin/destination pair independently of how it was typed,
+ * so runs of the same pair can be grouped and compared.
+ */
+const pairKey = ({ origin, destination, options }: SingleRequest): string =>
+  [locationKey(parseLocation(origin)), locationKey(parseLocation(destination)), routeOptionsKey(options)].join('|');
+
+/**
+ * Records a finished calculation, pruning the oldest entries past
+ * MAX_HISTORY_ENTRIES and the files of bulk entries past MAX_BULK_FILES.
+ */
+const addHistoryEntry = async (entry: NewHistoryEntry): Promise<HistoryEntry> => {
+  const now = Date.now();
+  const stored = { ...entry, id: `${now}-${Math.random().toString(36).slice(2, 8)}`, createdAt: now } as HistoryEntry;
+  await withStore(STORES.history, 'readwrite', async store => {
+    await promisify(store.put(stored));
+    const keys = await promisify(store.index('createdAt').getAllKeys());
+    const excess = keys.length - MAX_HISTORY_ENTRIES;
+    if (excess > 0) {
+      await Promise.all(keys.slice(0, excess).map(key => promisify(store.delete(key))));
+    }
+    if (stored.kind === 'bulk') {
+      const entries = await promisify<HistoryEntry[]>(store.index('createdAt').getAll());
+      const withFiles = entries.filter((e): e is BulkHistoryEntry => e.kind === 'bulk' && !!e.file).reverse();
+      await Promise.all(withFiles.slice(MAX_BULK_FILES).map(e => promisify(store.put({ ...e, file: undefined }))));
+    }
+  });
+  return stored;
+};
+
+/**
+ * Every history entry, newest first.
+ */
+const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore(STORES.history, 'readonly', store =>
+    promisify<HistoryEntry[]>(store.index('createdAt').getAll()));
+  return entries.reverse();
+};
+
+const deleteHistoryEntry = (id: string): Promise<void> =>
+  withStore(STORES.history, 'readwrite', async store => {
+    await promisify(store.delete(id));
+  });
+
+/**
+ * Removes every history entry. Pinned pairs are kept.
+ */
+const clearHistory = (): Promise<void> =>
+  withStore(STORES.history, 'readwrite', async store => {
+    await promisify(store.clear());
+  });
+
+const listFavourites = (): Promise<FavouritePair[]> =>
+  withStore(STORES.favourites, 'readonly', store => promisify<FavouritePair[]>(store.getAll()));
+
+const setFavourite = (pair: SingleRequest, pinned: boolean): Promise<void> => {
+  const key = pairKey(pair);
+  return withStore(STORES.favourites, 'readwrite', async store => {
+    if (pinned) {
+      const favourite: FavouritePair = {
+        key,
+        origin: pair.origin,
+        destination: pair.destination,
+        options: pair.options,
+        pinnedAt: Date.now(),
+      };
+      await promisify(store.put(favourite));
+    } else {
+      await promisify(store.delete(key));
+    }
+  });
+};
+
+interface DistanceChange {
+  entry: SingleHistoryEntry;
+  /** Kilometres more (or fewer) than the previous run; null for the first run. */
+  change: number | null;
+  /** `change` as a percentage of the previous distance. */
+  percent: number | null;
+}
+
+/**
+ * Runs of one pair in chronological order, each with its distance change
+ * from the run before.
+ */
+const distanceChanges = (runs: SingleHistoryEntry[]): DistanceChange[] => {
+  const sorted = [...runs].sort((a, b) => a.createdAt - b.createdAt);
+  return sorted.map((entry, i) => {
+    if (i === 0) return { entry, change: null, percent: null };
+    const previous = sorted[i - 1].info.distance;
+    const change = entry.info.distance - previous;
+    return { entry, change, percent: previous > 0 ? (change / previous) * 100 : null };
+  });
+};
+
+export type { NewHistoryEntry, DistanceChange };
+export {
+  MAX_HISTORY_ENTRIES,
+  MAX_BULK_FILES,
+  pairKey,
+  addHistoryEntry,
+  listHistory,
+  deleteHistoryEntry,
+  clearHistory,
+  listFavourites,
+  setFavourite,
+  distanceChanges,
+};
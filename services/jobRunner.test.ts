@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigurationError, RoutingError } from './errors';
+import { JobController, runJob } from './jobRunner';
+
+describe('runJob', () => {
+  it('reports every item once, with its result or error', async () => {
+    const outcomes: Array<[number, unknown]> = [];
+    await runJob([1, 2, 3, 4], async (n) => {
+      if (n === 3) throw new RoutingError('no route');
+      return n * 10;
+    }, {
+      concurrency: 2,
+      onSettled: (index, outcome) => outcomes.push([index, outcome.error ? 'error' : outcome.result]),
+    });
+    expect(outcomes.sort()).toEqual([[0, 10], [1, 20], [2, 'error'], [3, 40]]);
+  });
+
+  it('keeps at most `concurrency` items in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await runJob(Array.from({ length: 10 }, (_, i) => i), async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+    }, { concurrency: 3 });
+    expect(peak).toBe(3);
+  });
+
+  it('does not report a success again as an error when the callback throws', async () => {
+    const calls: Array<{ result?: number; error?: unknown }> = [];
+    const job = runJob([1], async n => n, {
+      concurrency: 1,
+      onSettled: (_, outcome) => {
+        calls.push(outcome);
+        throw new Error('checkpoint failed');
+      },
+    });
+    await expect(job).rejects.toThrow('checkpoint failed');
+    expect(calls).toEqual([{ result: 1 }]);
+  });
+
+  it('stops starting items after a fatal error and rethrows it', async () => {
+    const started: number[] = [];
+    const job = runJob([1, 2, 3], async (n) => {
+      started.push(n);
+      throw new ConfigurationError('bad key');
+    }, { concurrency: 1 });
+    await expect(job).rejects.toBeInstanceOf(ConfigurationError);
+    expect(started).toEqual([1]);
+  });
+
+  it('leaves the remaining items once cancelled', async () => {
+    const controller = new JobController();
+    const done: number[] = [];
+    await runJob([1, 2, 3], async (n) => {
+      done.push(n);
+      if (n === 1) controller.cancel();
+    }, { concurrency: 1, controller });
+    expect(done).toEqual([1]);
+  });
+
+  it('waits while paused', async () => {
+    const controller = new JobController();
+    controller.pause();
+    const done: number[] = [];
+    const job = runJob([1, 2], async (n) => {
+      done.push(n);
+    }, { concurrency: 1, controller });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(done).toEqual([]);
+    controller.resume();
+    await job;
+    expect(done).toEqual([1, 2]);
+  });
+});
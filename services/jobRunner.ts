@@ -0,0 +1,108 @@
+import { isFatalError } from './errors';
+
+/**
+ * Pause, resume and cancel handle for a running job. Pausing and cancelling
+ * stop new items from starting; items already in flight run to completion.
+ */
+class JobController {
+  private paused = false;
+  private cancelled = false;
+  private waiters: Array<() => void> = [];
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.release();
+  }
+
+  cancel(): void {
+    this.cancelled = true;
+    this.release();
+  }
+
+  /**
+   * Resolves when the job may start another item: true to continue, false
+   * once it has been cancelled.
+   */
+  async proceed(): Promise<boolean> {
+    while (this.paused && !this.cancelled) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    return !this.cancelled;
+  }
+
+  private release() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
+
+interface JobOptions<R> {
+  /** Number of items worked on at the same time. */
+  concurrency: number;
+  /** Called as each item finishes, in completion order. */
+  onSettled?: (index: number, outcome: { result?: R; error?: unknown }) => void;
+  controller?: JobController;
+}
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` items in flight.
+ * Errors from individual items are reported through `onSettled` and do not
+ * stop the job, except fatal ones: those stop new items from starting and
+ * are rethrown once the in-flight items have finished. A cancelled job
+ * resolves normally, leaving the remaining items unprocessed.
+ */
+const runJob = async <T, R>(
+  items: T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: JobOptions<R>,
+): Promise<void> => {
+  let next = 0;
+  let fatalError: unknown = null;
+
+  const lane = async () => {
+    while (fatalError === null && next < items.length) {
+      if (options.controller && !(await options.controller.proceed())) {
+        return;
+      }
+      if (fatalError !== null || next >= items.length) {
+        return;
+      }
+      const index = next++;
+      let outcome: { result?: R; error?: unknown };
+      try {
+        outcome = { result: await worker(items[index], index) };
+      } catch (error) {
+        if (isFatalError(error)) {
+          fatalError = error;
+          return;
+        }
+        outcome = { error };
+      }
+      // Outside the try, so a throwing callback can't report the item twice.
+      options.onSettled?.(index, outcome);
+    }
+  };
+
+  const lanes = Math.max(1, Math.min(options.concurrency, items.length));
+  await Promise.all(Array.from({ length: lanes }, lane));
+
+  if (fatalError !== null) {
+    throw fatalError;
+  }
+};
+
+export type { JobOptions };
+export { JobController, runJob };
@@ -0,0 +1,100 @@
+import type { BulkError, BulkJob, BulkJobStatus, BulkResultRow, BulkSettings, ColumnMapping, RouteOptions } from '../types';
+import { STORES, promisify, withStore } from './db';
+
+/** Outcome of one finished row, stored as it completes. */
+interface StoredRow {
+  jobId: string;
+  row: number;
+  result?: BulkResultRow;
+  error?: BulkError;
+}
+
+const createJob = async (
+  file: File,
+  input: { sheet?: string; mapping: ColumnMapping; routeOptions: RouteOptions },
+  settings: BulkSettings,
+  total: number,
+): Promise<BulkJob> => {
+  const now = Date.now();
+  const job: BulkJob = {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    file,
+    fileName: file.name,
+    sheet: input.sheet,
+    mapping: input.mapping,
+    routeOptions: input.routeOptions,
+    settings,
+    total,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+  await withStore(STORES.jobs, 'readwrite', store => promisify(store.put(job)));
+  return job;
+};
+
+const updateJobStatus = (jobId: string, status: BulkJobStatus): Promise<void> => {
+  return withStore(STORES.jobs, 'readwrite', async store => {
+    const job = await promisify<BulkJob | undefined>(store.get(jobId));
+    if (job) {
+      await promisify(store.put({ ...job, status, updatedAt: Date.now() }));
+    }
+  });
+};
+
+/** Sets the row count, once the file has been read. */
+const updateJobTotal = (jobId: string, total: number): Promise<void> => {
+  return withStore(STORES.jobs, 'readwrite', async store => {
+    const job = await promisify<BulkJob | undefined>(store.get(jobId));
+    if (job) {
+      await promisify(store.put({ ...job, total, updatedAt: Date.now() }));
+    }
+  });
+};
+
+/**
+ * Stores many outcomes in one transaction, e.g. a batch of finished rows or
+ * the rows a re-run keeps.
+ */
+const saveRowOutcomes = (jobId: string, outcomes: Array<{ result: BulkResultRow } | { error: BulkError }>): Promise<void> => {
+  return withStore(STORES.jobRows, 'readwrite', async store => {
+    await Promise.all(outcomes.map(outcome => {
+      const row = 'result' in outcome ? outcome.result.row : outcome.error.row;
+      const stored: StoredRow = { jobId, row, ...outcome };
+      return promisify(store.put(stored));
+    }));
+  });
+};
+
+/**
+ * The most recent job that was still running or paused when the page closed.
+ */
+const findInterruptedJob = async (): Promise<BulkJob | null> => {
+  const jobs = await withStore(STORES.jobs, 'readonly', store => promisify<BulkJob[]>(store.getAll()));
+  const interrupted = jobs
+    .filter(job => job.status === 'running' || job.status === 'paused')
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  return interrupted[0] ?? null;
+};
+
+const loadJobOutcomes = async (jobId: string): Promise<{ results: BulkResultRow[]; errors: BulkError[] }> => {
+  const rows = await withStore(STORES.jobRows, 'readonly', store =>
+    promisify<StoredRow[]>(store.index('jobId').getAll(jobId)));
+  const results: BulkResultRow[] = [];
+  const errors: BulkError[] = [];
+  for (const row of rows) {
+    if (row.result) results.push(row.result);
+    if (row.error) errors.push(row.error);
+  }
+  return { results, errors };
+};
+
+const deleteJob = async (jobId: string): Promise<void> => {
+  await withStore(STORES.jobRows, 'readwrite', async store => {
+    const keys = await promisify(store.index('jobId').getAllKeys(jobId));
+    await Promise.all(keys.map(key => promisify(store.delete(key))));
+  });
+  await withStore(STORES.jobs, 'readwrite', store => promisify(store.delete(jobId)));
+};
+
+export { createJob, updateJobStatus, updateJobTotal, saveRowOutcomes, findInterruptedJob, loadJobOutcomes, deleteJob };
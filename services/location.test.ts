@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { locationKey, parseLocation, validateLocation } from './location';
+
+const check = (input: string) => validateLocation(parseLocation(input));
+
+describe('parseLocation', () => {
+  it('reads digits as a pin code, spaces included', () => {
+    expect(parseLocation(' 400 001 ')).toEqual({ kind: 'pincode', value: '400 001', pinCode: '400001' });
+  });
+
+  it('reads two numbers as latitude and longitude', () => {
+    expect(parseLocation('18.5204, 73.8567')).toEqual({
+      kind: 'coordinates', value: '18.5204, 73.8567', coordinates: { latitude: 18.5204, longitude: 73.8567 },
+    });
+    expect(parseLocation('-33.9,151.2')).toMatchObject({ kind: 'coordinates', coordinates: { latitude: -33.9, longitude: 151.2 } });
+  });
+
+  it('reads everything else as a place name with spaces collapsed', () => {
+    expect(parseLocation('  Navi   Mumbai ')).toEqual({ kind: 'place', value: 'Navi   Mumbai', name: 'Navi Mumbai' });
+    expect(parseLocation('400001A').kind).toBe('place');
+    expect(parseLocation('18.5, 73.8, 10').kind).toBe('place');
+  });
+});
+
+describe('validateLocation', () => {
+  it('accepts a spaced pin code and rejects short or long ones', () => {
+    expect(check('400 001')).toBeNull();
+    expect(check('40001')).toBe('Please enter a valid 6-digit pin code.');
+    expect(check('4000011')).toBe('Please enter a valid 6-digit pin code.');
+  });
+
+  it('rejects coordinates out of range', () => {
+    expect(check('91,73')).toBe('"91,73" is not a valid latitude,longitude pair.');
+    expect(check('18,181')).toBe('"18,181" is not a valid latitude,longitude pair.');
+  });
+
+  it('catches coordinates outside India, such as a swapped pair', () => {
+    expect(check('18.5204,73.8567')).toBeNull();
+    expect(check('73.8567,18.5204')).toBe('73.8567,18.5204 is outside India. Coordinates are latitude first, then longitude.');
+    expect(check('51.5,-0.12')).toContain('is outside India');
+  });
+
+  it('accepts place names up to the length limit', () => {
+    expect(check('A')).toBeNull();
+    expect(check('a'.repeat(100))).toBeNull();
+    expect(check('a'.repeat(101))).toBe('Place names cannot exceed 100 characters.');
+  });
+
+  it('measures a place name after collapsing spaces', () => {
+    expect(check(`${'a'.repeat(50)}     ${'b'.repeat(49)}`)).toBeNull();
+  });
+
+  it('rejects blank names and names without letters or numbers', () => {
+    expect(check('   ')).toBe('Please enter a pin code, city or town, or latitude,longitude.');
+    expect(check('--!')).toBe('Place names must contain letters or numbers.');
+  });
+});
+
+describe('locationKey', () => {
+  it('gives spaced and unspaced pin codes the same key', () => {
+    expect(locationKey(parseLocation('400 001'))).toBe(locationKey(parseLocation('400001')));
+  });
+
+  it('folds the case and spacing of place names', () => {
+    expect(locationKey(parseLocation(' Navi  MUMBAI'))).toBe('navi mumbai');
+    expect(locationKey(parseLocation('navi mumbai'))).toBe('navi mumbai');
+  });
+
+  it('rounds coordinates to four decimals', () => {
+    expect(locationKey(parseLocation('18.52041,73.85669'))).toBe('18.5204,73.8567');
+    expect(locationKey(parseLocation('18.5204, 73.8567'))).toBe(locationKey(parseLocation('18.52040001,73.8567')));
+  });
+
+  it('keeps the kinds apart', () => {
+    expect(locationKey(parseLocation('400001'))).not.toBe(locationKey(parseLocation('Mumbai')));
+  });
+});
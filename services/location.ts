@@ -0,0 +1,117 @@
+import type { Coordinates, Location } from '../types';
+import { resolvePlace, validatePinCode } from './gazetteer';
+
+const MAX_PLACE_LENGTH = 100;
+
+/** Rough bounding box of India, used to catch swapped or mistyped coordinates. */
+const INDIA_BOUNDS = { minLatitude: 6, maxLatitude: 37.5, minLongitude: 68, maxLongitude: 97.5 };
+
+const COORDINATES_PATTERN = /^(-?\d{1,3}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)$/;
+
+/**
+ * Works out which kind of location a value is: anything made of digits is a
+ * pin code ('400 001' included), two comma-separated numbers are latitude and
+ * longitude, and everything else is a place name.
+ */
+const parseLocation = (input: string): Location => {
+  const value = input.trim();
+  if (/^\d[\d\s]*$/.test(value)) {
+    return { kind: 'pincode', value, pinCode: value.replace(/\s+/g, '') };
+  }
+  const coordinates = COORDINATES_PATTERN.exec(value);
+  if (coordinates) {
+    return {
+      kind: 'coordinates',
+      value,
+      coordinates: { latitude: parseFloat(coordinates[1]), longitude: parseFloat(coordinates[2]) },
+    };
+  }
+  return { kind: 'place', value, name: value.replace(/\s+/g, ' ') };
+};
+
+/**
+ * Checks a location according to its kind. Returns an error message, or null
+ * when valid.
+ */
+const validateLocation = (location: Location): string | null => {
+  switch (location.kind) {
+    case 'pincode':
+      return validatePinCode(location.pinCode);
+    case 'coordinates': {
+      const { latitude, longitude } = location.coordinates;
+      if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return `"${location.value}" is not a valid latitude,longitude pair.`;
+      }
+      const { minLatitude, maxLatitude, minLongitude, maxLongitude } = INDIA_BOUNDS;
+      if (latitude < minLatitude || latitude > maxLatitude || longitude < minLongitude || longitude > maxLongitude) {
+        return `${location.value} is outside India. Coordinates are latitude first, then longitude.`;
+      }
+      return null;
+    }
+    case 'place':
+      if (!location.name) {
+        return 'Please enter a pin code, city or town, or latitude,longitude.';
+      }
+      if (location.name.length > MAX_PLACE_LENGTH) {
+        return `Place names cannot exceed ${MAX_PLACE_LENGTH} characters.`;
+      }
+      if (!/[a-zA-Z0-9]/.test(location.name)) {
+        return 'Place names must contain letters or numbers.';
+      }
+      return null;
+  }
+};
+
+/**
+ * Coordinates of a location: exact for coordinate pairs, the post office's
+ * for pin codes and places found in the gazetteer, otherwise undefined.
+ */
+const locate = (location: Location): Coordinates | undefined => {
+  switch (location.kind) {
+    case 'coordinates':
+      return location.coordinates;
+    case 'pincode':
+      return resolvePlace(location.pinCode);
+    case 'place':
+      return resolvePlace(location.name);
+  }
+};
+
+/**
+ * Canonical form for comparing and caching: pin codes without spaces, place
+ * names case-folded, coordinates rounded to about 10 m.
+ */
+const locationKey = (location: Location): string => {
+  switch (location.kind) {
+    case 'pincode':
+      return location.pinCode;
+    case 'place':
+      return location.name.toLowerCase();
+    case 'coordinates':
+      return `${location.coordinates.latitude.toFixed(4)},${location.coordinates.longitude.toFixed(4)}`;
+  }
+};
+
+/**
+ * How a location is named in a routing prompt.
+ */
+const describeLocation = (location: Location): string => {
+  switch (location.kind) {
+    case 'pincode':
+      return `pin code ${location.pinCode}, India`;
+    case 'place':
+      return `${location.name}, India`;
+    case 'coordinates':
+      return `the point at latitude ${location.coordinates.latitude}, longitude ${location.coordinates.longitude} in India`;
+  }
+};
+
+/**
+ * Search text for a Google Maps link.
+ */
+const mapsQuery = (location: Location): string =>
+  location.kind === 'coordinates'
+    ? `${location.coordinates.latitude},${location.coordinates.longitude}`
+    : `${location.value}, India`;
+
+export { parseLocation, validateLocation, locate, locationKey, describeLocation, mapsQuery };
@@ -0,0 +1,77 @@
+import type { BulkResultRow, DrivingInfo, MapSegment } from '../types';
+import { locate, parseLocation } from './location';
+import { describeRouteOptions } from './routeOptions';
+
+/** Colour bands for bulk results, by road distance. */
+const DISTANCE_BANDS: Array<{ max: number; label: string; color: string }> = [
+  { max: 100, label: 'Under 100 km', color: '#22c55e' },
+  { max: 300, label: '100–300 km', color: '#eab308' },
+  { max: 800, label: '300–800 km', color: '#f97316' },
+  { max: Infinity, label: 'Over 800 km', color: '#ef4444' },
+];
+
+/** Colour for single results, which are not banded. */
+const ROUTE_COLOR = '#06b6d4';
+
+const distanceBand = (distance: number) =>
+  DISTANCE_BANDS.find(band => distance < band.max) ?? DISTANCE_BANDS[DISTANCE_BANDS.length - 1];
+
+const routeDetails = (info: DrivingInfo): Array<[string, string]> => {
+  const details: Array<[string, string]> = [
+    ['Distance', `${info.distance.toLocaleString('en-IN')} km`],
+    ['Travel time', info.travelTime],
+    ['Route', info.routeSummary],
+  ];
+  if (info.options) details.push(['Options', describeRouteOptions(info.options)]);
+  if (info.warnings?.length) details.push(['Warnings', info.warnings.join(' ')]);
+  return details;
+};
+
+/**
+ * The map segment for a pair, or null when either end can't be placed
+ * (a pin code or place name missing from the gazetteer).
+ */
+const toSegment = (
+  id: string,
+  origin: string,
+  destination: string,
+  color: string,
+  details: Array<[string, string]>,
+): MapSegment | null => {
+  const from = locate(parseLocation(origin));
+  const to = locate(parseLocation(destination));
+  if (!from || !to) return null;
+  return {
+    id,
+    origin: { label: origin, coordinates: from },
+    destination: { label: destination, coordinates: to },
+    color,
+    details,
+  };
+};
+
+const singleRouteSegment = (origin: string, destination: string, info: DrivingInfo): MapSegment | null =>
+  toSegment('route', origin, destination, ROUTE_COLOR, routeDetails(info));
+
+/**
+ * One segment per bulk result, coloured by distance band. `unplaced` counts
+ * the rows that could not be drawn.
+ */
+const bulkResultSegments = (results: BulkResultRow[]): { segments: MapSegment[]; unplaced: number } => {
+  const segments: MapSegment[] = [];
+  for (const result of results) {
+    const origin = result["Origin Pin Code"];
+    const destination = result["Destination City"];
+    const segment = toSegment(
+      String(result.row),
+      origin,
+      destination,
+      distanceBand(result.distance).color,
+      [['Row', String(result.row)], ...routeDetails(result)],
+    );
+    if (segment) segments.push(segment);
+  }
+  return { segments, unplaced: results.length - segments.length };
+};
+
+export { DISTANCE_BANDS, distanceBand, singleRouteSegment, bulkResultSegments };
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { mockProvider } from './mockService';
+import { parseLocation } from './location';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+
+const route = (from: string, to: string, options = DEFAULT_ROUTE_OPTIONS) =>
+  mockProvider.getDrivingInfo(parseLocation(from), parseLocation(to), options);
+
+describe('mockProvider', () => {
+  it('returns the same route every time', async () => {
+    expect(await route('110001', '400001')).toEqual(await route('110001', '400001'));
+  });
+
+  it('reports the same distance in both directions', async () => {
+    const there = await route('110001', '400001');
+    const back = await route('400001', '110001');
+    expect(back.distance).toBe(there.distance);
+  });
+
+  it('makes toll-free routes longer', async () => {
+    const direct = await route('110001', '400001');
+    const tollFree = await route('110001', '400001', { ...DEFAULT_ROUTE_OPTIONS, avoidTolls: true });
+    expect(tollFree.distance).toBeGreaterThanOrEqual(direct.distance);
+  });
+});
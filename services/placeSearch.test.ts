@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { checkPlaceName, placeLabel, searchPlaces } from './placeSearch';
+
+const labels = (input: string, limit?: number) => searchPlaces(input, limit).map(placeLabel);
+
+describe('searchPlaces', () => {
+  it('puts an exact name before names that start with it', () => {
+    expect(labels('Hyderabad')[0]).toBe('Hyderabad, Telangana');
+  });
+
+  it('completes a partly typed name', () => {
+    expect(labels('Beng')).toContain('Bengaluru, Karnataka');
+  });
+
+  it('tolerates typos and swapped letters', () => {
+    expect(labels('Hydrabad')).toContain('Hyderabad, Telangana');
+    expect(labels('Puen')).toContain('Pune, Maharashtra');
+  });
+
+  it('needs short queries to match exactly', () => {
+    expect(labels('Pnu')).toEqual([]);
+  });
+
+  it('finds current names from former ones, listing each place once', () => {
+    const results = searchPlaces('Bombay');
+    expect(placeLabel(results[0])).toBe('Mumbai, Maharashtra');
+    expect(results[0].alias).toBe('Bombay');
+    expect(new Set(results.map(placeLabel)).size).toBe(results.length);
+  });
+
+  it('narrows the results to a trailing state', () => {
+    expect(labels('Aurangabad, Bihar')).toEqual(['Aurangabad, Bihar']);
+  });
+});
+
+describe('checkPlaceName', () => {
+  it('accepts names found in one state', () => {
+    expect(checkPlaceName('Pune')).toEqual({ status: 'ok' });
+    expect(checkPlaceName('Aurangabad, Maharashtra')).toEqual({ status: 'ok' });
+  });
+
+  it('asks which state an ambiguous name is in', () => {
+    const check = checkPlaceName('Aurangabad');
+    expect(check.status).toBe('ambiguous');
+    if (check.status === 'ambiguous') {
+      expect(check.candidates.map(placeLabel).sort()).toEqual(['Aurangabad, Bihar', 'Aurangabad, Maharashtra']);
+    }
+  });
+
+  it('suggests close names for a misspelt one', () => {
+    const check = checkPlaceName('Hydrabad');
+    expect(check.status).toBe('unknown');
+    if (check.status === 'unknown') {
+      expect(check.suggestions.map(placeLabel)).toContain('Hyderabad, Telangana');
+    }
+  });
+
+  it('lets through names with nothing similar', () => {
+    expect(checkPlaceName('Xylophone Junction')).toEqual({ status: 'ok' });
+  });
+});
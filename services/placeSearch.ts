@@ -0,0 +1,116 @@
+import type { Place } from '../types';
+import { findPlaces, listPlaces, splitStateQualifier } from './gazetteer';
+
+const DEFAULT_LIMIT = 8;
+
+const normalize = (value: string): string => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Optimal string alignment distance: edits (insert, delete, substitute, or
+ * swap two neighbouring letters) needed to turn `a` into `b`. Gives up and
+ * returns `max + 1` once the distance is known to exceed `max`.
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], prevPrev[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+};
+
+/** Typos allowed for a query of this length: none for very short ones. */
+const allowedTypos = (length: number): number => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/**
+ * How well `name` matches `query`; lower is better, null is no match.
+ * Exact names come first, then prefixes, then names containing the query,
+ * then names within a few typos (of the whole name, or of its beginning
+ * while the user is still typing).
+ */
+const matchScore = (query: string, name: string): number | null => {
+  if (name === query) return 0;
+  if (name.startsWith(query)) return 1;
+  if (name.includes(` ${query}`)) return 2;
+  const typos = allowedTypos(query.length);
+  if (typos === 0) return null;
+  const distance = Math.min(
+    editDistance(query, name, typos),
+    editDistance(query, name.slice(0, query.length), typos),
+  );
+  return distance <= typos ? 2 + distance : null;
+};
+
+/** Display name of a place with its state, e.g. 'Aurangabad, Bihar'. */
+const placeLabel = (place: Place): string => `${place.name}, ${place.state}`;
+
+/**
+ * Places matching a partly typed or misspelt name, best first. Former names
+ * find the current one ('Bombay' gives Mumbai), and a trailing ', State'
+ * narrows the results to that state.
+ */
+const searchPlaces = (input: string, limit = DEFAULT_LIMIT): Place[] => {
+  const { name, state } = splitStateQualifier(input);
+  const query = normalize(name);
+  if (!query) return [];
+
+  const best = new Map<string, { place: Place; score: number }>();
+  for (const place of listPlaces()) {
+    if (state && place.state.toLowerCase() !== state) continue;
+    const score = matchScore(query, normalize(place.alias ?? place.name));
+    if (score === null) continue;
+    // A place found under several names (e.g. 'Bombay' and 'Mumbai') is listed once.
+    const label = placeLabel(place);
+    const current = best.get(label);
+    if (!current || score < current.score) {
+      best.set(label, { place, score });
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => a.score - b.score || a.place.name.localeCompare(b.place.name))
+    .slice(0, limit)
+    .map(({ place }) => place);
+};
+
+type PlaceCheck =
+  | { status: 'ok' }
+  | { status: 'ambiguous'; candidates: Place[] }
+  | { status: 'unknown'; suggestions: Place[] };
+
+/**
+ * Checks a place name before routing. A name found in more than one state is
+ * ambiguous and needs a state; a name that isn't in the gazetteer but is close
+ * to names that are is probably misspelt. Anything else (a known place, or a
+ * name we have nothing like) is fine to send as it is.
+ */
+const checkPlaceName = (input: string): PlaceCheck => {
+  const matches = findPlaces(input);
+  if (matches.length > 0) {
+    const states = new Set(matches.map(r => r.state));
+    if (states.size === 1) {
+      return { status: 'ok' };
+    }
+    const query = normalize(splitStateQualifier(input).name);
+    const candidates = searchPlaces(input, Infinity).filter(p => normalize(p.alias ?? p.name) === query);
+    return { status: 'ambiguous', candidates };
+  }
+  const suggestions = searchPlaces(input);
+  return suggestions.length > 0 ? { status: 'unknown', suggestions } : { status: 'ok' };
+};
+
+export type { PlaceCheck };
+export { placeLabel, searchPlaces, checkPlaceName };
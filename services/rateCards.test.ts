@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { DrivingInfo, RateCard, VehicleType } from '../types';
+import { SAMPLE_RATE_CARD, calculateCost, validateRateCard } from './rateCards';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+
+const card: RateCard = { ...SAMPLE_RATE_CARD, id: 'test' };
+
+const route = (distance: number, vehicle: VehicleType = 'car'): DrivingInfo => ({
+  distance,
+  travelTime: '',
+  routeSummary: '',
+  options: { ...DEFAULT_ROUTE_OPTIONS, vehicle },
+});
+
+describe('calculateCost', () => {
+  it('charges each band of the distance at its own rate', () => {
+    // 100 km at ₹30 and 150 km at ₹25, plus the ₹500 base fare.
+    const cost = calculateCost(route(250), card);
+    expect(cost.distanceCharge).toBe(6750);
+    expect(cost.subtotal).toBe(7250);
+    expect(cost.fuelSurcharge).toBe(725);
+    expect(cost.gst).toBe(1435.5);
+    expect(cost.total).toBe(9410.5);
+  });
+
+  it('charges a distance on a band edge entirely in the lower band', () => {
+    expect(calculateCost(route(100), card).distanceCharge).toBe(3000);
+    expect(calculateCost(route(600), card).distanceCharge).toBe(3000 + 400 * 25 + 100 * 20);
+  });
+
+  it('carries the last rate on past a closed last band', () => {
+    const closed: RateCard = { ...card, slabs: [{ upTo: 100, rate: 10 }] };
+    expect(calculateCost(route(150), closed).distanceCharge).toBe(1500);
+  });
+
+  it('applies the minimum charge to short routes', () => {
+    const cost = calculateCost(route(10), card);
+    expect(cost.minimumApplied).toBe(true);
+    expect(cost.subtotal).toBe(1000);
+    expect(calculateCost(route(20), card).minimumApplied).toBe(false);
+  });
+
+  it('scales the distance charge by vehicle, charging routes without options as a car', () => {
+    expect(calculateCost(route(100, 'truck'), card).distanceCharge).toBe(7500);
+    expect(calculateCost({ ...route(100), options: undefined }, card).distanceCharge).toBe(3000);
+  });
+
+  it('rounds to the paisa', () => {
+    expect(calculateCost(route(100.0123), card).distanceCharge).toBe(3000.31);
+  });
+});
+
+describe('validateRateCard', () => {
+  it('accepts the sample card', () => {
+    expect(validateRateCard(SAMPLE_RATE_CARD)).toBeNull();
+  });
+
+  it('rejects slabs that are out of order or open-ended before the last', () => {
+    expect(validateRateCard({ ...SAMPLE_RATE_CARD, slabs: [{ upTo: 100, rate: 1 }, { upTo: 50, rate: 1 }] }))
+      .toBe('Slab 2: the upper limit must be more than 100 km.');
+    expect(validateRateCard({ ...SAMPLE_RATE_CARD, slabs: [{ upTo: null, rate: 1 }, { upTo: 50, rate: 1 }] }))
+      .toBe('Slab 1: only the last slab can be open-ended.');
+    expect(validateRateCard({ ...SAMPLE_RATE_CARD, slabs: [] })).toBe('Add at least one per-km slab.');
+  });
+
+  it('rejects negative amounts', () => {
+    expect(validateRateCard({ ...SAMPLE_RATE_CARD, gstPercent: -1 })).toBe('GST must be zero or more.');
+  });
+});
@@ -0,0 +1,121 @@
+import type { CostBreakdown, DrivingInfo, RateCard, RateSlab, VehicleType } from '../types';
+import { STORES, promisify, withStore } from './db';
+import { VEHICLES } from './routeOptions';
+
+/** Starting values for a new rate card. */
+const SAMPLE_RATE_CARD: Omit<RateCard, 'id'> = {
+  name: 'Standard',
+  baseFare: 500,
+  minimumCharge: 1000,
+  slabs: [
+    { upTo: 100, rate: 30 },
+    { upTo: 500, rate: 25 },
+    { upTo: null, rate: 20 },
+  ],
+  vehicleMultipliers: { 'two-wheeler': 0.4, car: 1, lcv: 1.5, truck: 2.5 },
+  fuelSurchargePercent: 10,
+  gstPercent: 18,
+};
+
+const round = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Charge for `distance` km under the slabs, each band charged at its own
+ * rate (e.g. the first 100 km at one rate and the rest at the next).
+ */
+const slabCharge = (distance: number, slabs: RateSlab[]): number => {
+  let charge = 0;
+  let from = 0;
+  for (const slab of slabs) {
+    const to = slab.upTo ?? Infinity;
+    charge += (Math.min(distance, to) - from) * slab.rate;
+    if (distance <= to) return charge;
+    from = to;
+  }
+  // Past a closed last band, the last rate carries on.
+  return charge + (distance - from) * (slabs[slabs.length - 1]?.rate ?? 0);
+};
+
+/**
+ * Applies a rate card to a route: base fare plus the vehicle's slab charge,
+ * raised to the minimum charge if below it, then the fuel surcharge and GST
+ * on top. Routes without options are charged as a car.
+ */
+const calculateCost = (info: DrivingInfo, card: RateCard): CostBreakdown => {
+  const vehicle = info.options?.vehicle ?? 'car';
+  const baseFare = round(card.baseFare);
+  const distanceCharge = round(slabCharge(info.distance, card.slabs) * card.vehicleMultipliers[vehicle]);
+  const minimumApplied = baseFare + distanceCharge < card.minimumCharge;
+  const subtotal = round(minimumApplied ? card.minimumCharge : baseFare + distanceCharge);
+  const fuelSurcharge = round(subtotal * card.fuelSurchargePercent / 100);
+  const gst = round((subtotal + fuelSurcharge) * card.gstPercent / 100);
+  return {
+    rateCard: card.name,
+    baseFare,
+    distanceCharge,
+    minimumApplied,
+    subtotal,
+    fuelSurcharge,
+    gst,
+    total: round(subtotal + fuelSurcharge + gst),
+  };
+};
+
+const formatRupees = (amount: number): string =>
+  amount.toLocaleString('en-IN', { style: 'currency', currency: 'INR' });
+
+/**
+ * Why a rate card can't be used, or null if it is fine.
+ */
+const validateRateCard = (card: Omit<RateCard, 'id'>): string | null => {
+  if (!card.name.trim()) return 'Give the rate card a name.';
+  const amounts: Array<[string, number]> = [
+    ['Base fare', card.baseFare],
+    ['Minimum charge', card.minimumCharge],
+    ['Fuel surcharge', card.fuelSurchargePercent],
+    ['GST', card.gstPercent],
+    ...(Object.keys(VEHICLES) as VehicleType[]).map((vehicle): [string, number] =>
+      [`The ${VEHICLES[vehicle].label.toLowerCase()} rate`, card.vehicleMultipliers[vehicle]]),
+  ];
+  for (const [label, amount] of amounts) {
+    if (!Number.isFinite(amount) || amount < 0) return `${label} must be zero or more.`;
+  }
+  if (card.slabs.length === 0) return 'Add at least one per-km slab.';
+  let previous = 0;
+  for (const [i, slab] of card.slabs.entries()) {
+    if (!Number.isFinite(slab.rate) || slab.rate < 0) return `Slab ${i + 1}: the rate must be zero or more.`;
+    if (slab.upTo === null) {
+      if (i !== card.slabs.length - 1) return `Slab ${i + 1}: only the last slab can be open-ended.`;
+    } else if (!Number.isFinite(slab.upTo) || slab.upTo <= previous) {
+      return `Slab ${i + 1}: the upper limit must be more than ${previous} km.`;
+    } else {
+      previous = slab.upTo;
+    }
+  }
+  return null;
+};
+
+const listRateCards = async (): Promise<RateCard[]> => {
+  const cards = await withStore(STORES.rateCards, 'readonly', store => promisify<RateCard[]>(store.getAll()));
+  return cards.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Stores a new card (without an id) or replaces an existing one.
+ */
+const saveRateCard = async (card: Omit<RateCard, 'id'> & { id?: string }): Promise<RateCard> => {
+  const error = validateRateCard(card);
+  if (error) {
+    throw new Error(error);
+  }
+  const stored: RateCard = { ...card, id: card.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` };
+  await withStore(STORES.rateCards, 'readwrite', store => promisify(store.put(stored)));
+  return stored;
+};
+
+const deleteRateCard = (id: string): Promise<void> =>
+  withStore(STORES.rateCards, 'readwrite', async store => {
+    await promisify(store.delete(id));
+  });
+
+export { SAMPLE_RATE_CARD, calculateCost, formatRupees, validateRateCard, listRateCards, saveRateCard, deleteRateCard };
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TokenBucket } from './rateLimiter';
+
+describe('TokenBucket', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('rejects a rate of zero', () => {
+    expect(() => new TokenBucket(0)).toThrow(RangeError);
+  });
+
+  it('allows a burst up to its capacity, then waits for a refill', async () => {
+    const bucket = new TokenBucket(60, 2);
+    await bucket.acquire();
+    await bucket.acquire();
+
+    let acquired = false;
+    bucket.acquire().then(() => {
+      acquired = true;
+    });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(acquired).toBe(true);
+  });
+
+  it('never holds more than its capacity', async () => {
+    const bucket = new TokenBucket(600, 1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    await bucket.acquire();
+
+    let acquired = false;
+    bucket.acquire().then(() => {
+      acquired = true;
+    });
+    await vi.advanceTimersByTimeAsync(50);
+    expect(acquired).toBe(false);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(acquired).toBe(true);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * Token bucket rate limiter. Holds up to `capacity` tokens, refilled
+ * continuously at `ratePerMinute`; each request takes one token and waits
+ * while the bucket is empty.
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+
+  constructor(ratePerMinute: number, capacity = Math.max(1, Math.ceil(ratePerMinute / 60))) {
+    if (ratePerMinute <= 0) {
+      throw new RangeError('ratePerMinute must be greater than zero.');
+    }
+    this.capacity = capacity;
+    this.tokens = capacity;
+    this.refillPerMs = ratePerMinute / 60000;
+    this.lastRefill = Date.now();
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Resolves once a token is available, consuming it.
+   */
+  async acquire(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil((1 - this.tokens) / this.refillPerMs);
+      await new Promise(resolve => setTimeout(resolve, waitMs));
+    }
+  }
+}
+
+export { TokenBucket };
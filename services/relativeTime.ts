@@ -0,0 +1,12 @@
+/**
+ * How long ago a timestamp was, e.g. '5 min ago', '3 h ago' or '12 days ago'.
+ */
+const formatAge = (timestamp: number, now = Date.now()): string => {
+  const minutes = Math.round((now - timestamp) / 60000);
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} h ago`;
+  return `${Math.round(hours / 24)} days ago`;
+};
+
+export { formatAge };
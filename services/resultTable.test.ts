@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import type { ResultTableRow } from './resultTable';
+import { EMPTY_FILTER, filterResultRows, median, sortResultRows, summarizeByOrigin } from './resultTable';
+
+const row = (
+  n: number,
+  origin: string,
+  distance: number | null,
+  minutes: number | null = null,
+  destination = `Destination ${n}`,
+): ResultTableRow => ({
+  row: n,
+  origin,
+  destination,
+  status: distance === null ? 'failed' : 'success',
+  distance,
+  minutes,
+  travelTime: '',
+  detail: distance === null ? 'No route found.' : `Route ${n}`,
+});
+
+const rows = [
+  row(2, '400001', 150, 180, 'Pune'),
+  row(3, '110001', null, null, 'Atlantis'),
+  row(4, '400001', 100, null, 'Nashik'),
+  row(5, '110001', 280, 300, 'Jaipur'),
+  row(6, '400001', 150, 200, 'Pune Camp'),
+];
+
+const rowNumbers = (list: ResultTableRow[]) => list.map(r => r.row);
+
+describe('filterResultRows', () => {
+  it('keeps every row for the empty filter', () => {
+    expect(filterResultRows(rows, EMPTY_FILTER)).toEqual(rows);
+  });
+
+  it('includes both ends of a range', () => {
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, minDistance: 100, maxDistance: 150 }))).toEqual([2, 4, 6]);
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, minDistance: 150.5 }))).toEqual([5]);
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, maxMinutes: 180 }))).toEqual([2]);
+  });
+
+  it('drops rows without a value once their range is bounded', () => {
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, minMinutes: 0 }))).toEqual([2, 5, 6]);
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, maxDistance: 1000 }))).toEqual([2, 4, 5, 6]);
+  });
+
+  it('matches text in the origin, destination or detail and filters by status', () => {
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, text: ' PUNE ' }))).toEqual([2, 6]);
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, text: 'no route' }))).toEqual([3]);
+    expect(rowNumbers(filterResultRows(rows, { ...EMPTY_FILTER, status: 'failed' }))).toEqual([3]);
+  });
+});
+
+describe('sortResultRows', () => {
+  it('puts rows without a value last in either direction', () => {
+    expect(rowNumbers(sortResultRows(rows, 'distance'))).toEqual([4, 2, 6, 5, 3]);
+    expect(rowNumbers(sortResultRows(rows, 'distance', true))).toEqual([5, 2, 6, 4, 3]);
+    expect(rowNumbers(sortResultRows(rows, 'minutes', true))).toEqual([5, 6, 2, 3, 4]);
+  });
+
+  it('keeps row order for ties', () => {
+    expect(rowNumbers(sortResultRows(rows, 'origin'))).toEqual([3, 5, 2, 4, 6]);
+    expect(rowNumbers(sortResultRows(rows, 'origin', true))).toEqual([2, 4, 6, 3, 5]);
+  });
+
+  it('compares text with numbers in numeric order', () => {
+    const places = [row(1, 'A', 1, null, 'Sector 10'), row(2, 'A', 1, null, 'Sector 9')];
+    expect(rowNumbers(sortResultRows(places, 'destination'))).toEqual([2, 1]);
+  });
+
+  it('leaves the input untouched', () => {
+    const copy = [...rows];
+    sortResultRows(rows, 'distance', true);
+    expect(rows).toEqual(copy);
+  });
+});
+
+describe('median', () => {
+  it('takes the middle value of an odd count', () => {
+    expect(median([1, 5, 9])).toBe(5);
+    expect(median([7])).toBe(7);
+  });
+
+  it('averages the middle two of an even count', () => {
+    expect(median([1, 2, 4, 10])).toBe(3);
+    expect(median([100, 150])).toBe(125);
+  });
+});
+
+describe('summarizeByOrigin', () => {
+  it('summarizes each origin over its successful rows, busiest first', () => {
+    expect(summarizeByOrigin(rows)).toEqual([
+      {
+        origin: '400001', count: 3,
+        totalDistance: 400, meanDistance: 400 / 3, medianDistance: 150, maxDistance: 150,
+        totalMinutes: 380, meanMinutes: 190, medianMinutes: 190, maxMinutes: 200,
+      },
+      {
+        origin: '110001', count: 1,
+        totalDistance: 280, meanDistance: 280, medianDistance: 280, maxDistance: 280,
+        totalMinutes: 300, meanMinutes: 300, medianMinutes: 300, maxMinutes: 300,
+      },
+    ]);
+  });
+
+  it('leaves time statistics null when no time could be read', () => {
+    const [summary] = summarizeByOrigin([row(1, '400001', 10), row(2, '400001', 30)]);
+    expect(summary.medianDistance).toBe(20);
+    expect(summary.totalMinutes).toBeNull();
+    expect(summary.medianMinutes).toBeNull();
+  });
+
+  it('orders origins with the same count by name', () => {
+    expect(summarizeByOrigin([row(1, '560001', 5), row(2, '110001', 5)]).map(s => s.origin)).toEqual(['110001', '560001']);
+  });
+});
@@ -0,0 +1,160 @@
+import type { BulkError, BulkResultRow } from '../types';
+import { isSuspicious } from './validation';
+
+type ResultStatus = 'success' | 'warning' | 'failed';
+
+/** One bulk row as shown in the results table, finished or failed. */
+interface ResultTableRow {
+  row: number;
+  origin: string;
+  destination: string;
+  status: ResultStatus;
+  distance: number | null;
+  minutes: number | null;
+  travelTime: string;
+  /** The route summary, or the error message for failed rows. */
+  detail: string;
+}
+
+type SortKey = 'row' | 'origin' | 'destination' | 'status' | 'distance' | 'minutes';
+
+interface ResultFilter {
+  /** Matched case-insensitively against origin, destination and detail. */
+  text: string;
+  status: ResultStatus | 'all';
+  minDistance: number | null;
+  maxDistance: number | null;
+  minMinutes: number | null;
+  maxMinutes: number | null;
+}
+
+const EMPTY_FILTER: ResultFilter = {
+  text: '',
+  status: 'all',
+  minDistance: null,
+  maxDistance: null,
+  minMinutes: null,
+  maxMinutes: null,
+};
+
+/** Per-origin statistics over the rows that have a result. */
+interface OriginSummary {
+  origin: string;
+  count: number;
+  totalDistance: number;
+  meanDistance: number;
+  medianDistance: number;
+  maxDistance: number;
+  /** Travel time statistics over the rows whose time could be read; null if none. */
+  totalMinutes: number | null;
+  meanMinutes: number | null;
+  medianMinutes: number | null;
+  maxMinutes: number | null;
+}
+
+const buildResultRows = (results: BulkResultRow[], errors: BulkError[]): ResultTableRow[] => [
+  ...results.map((result): ResultTableRow => ({
+    row: result.row,
+    origin: result["Origin Pin Code"],
+    destination: result["Destination City"],
+    status: isSuspicious(result) ? 'warning' : 'success',
+    distance: result.distance,
+    minutes: result.durationMinutes ?? null,
+    travelTime: result.travelTime,
+    detail: result.routeSummary,
+  })),
+  ...errors.map((error): ResultTableRow => ({
+    row: error.row,
+    origin: error.origin,
+    destination: error.destination,
+    status: 'failed',
+    distance: null,
+    minutes: null,
+    travelTime: '',
+    detail: error.message,
+  })),
+];
+
+/** A row without a value fails any range that bounds it. */
+const inRange = (value: number | null, min: number | null, max: number | null): boolean => {
+  if (min === null && max === null) return true;
+  if (value === null) return false;
+  return (min === null || value >= min) && (max === null || value <= max);
+};
+
+const filterResultRows = (rows: ResultTableRow[], filter: ResultFilter): ResultTableRow[] => {
+  const text = filter.text.trim().toLowerCase();
+  return rows.filter(row =>
+    (filter.status === 'all' || row.status === filter.status)
+    && inRange(row.distance, filter.minDistance, filter.maxDistance)
+    && inRange(row.minutes, filter.minMinutes, filter.maxMinutes)
+    && (!text || [row.origin, row.destination, row.detail].some(value => value.toLowerCase().includes(text))));
+};
+
+/**
+ * Sorts a copy of the rows. Rows without a value for the key go last in
+ * either direction; ties keep input row order.
+ */
+const sortResultRows = (rows: ResultTableRow[], key: SortKey, descending = false): ResultTableRow[] => {
+  const direction = descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const x = a[key];
+    const y = b[key];
+    if (x === null || y === null) {
+      if (x !== y) return x === null ? 1 : -1;
+    } else if (x !== y) {
+      const order = typeof x === 'number' && typeof y === 'number'
+        ? x - y
+        : String(x).localeCompare(String(y), undefined, { numeric: true });
+      if (order !== 0) return order * direction;
+    }
+    return a.row - b.row;
+  });
+};
+
+/** Median of values already sorted in ascending order. */
+const median = (sorted: number[]): number => {
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const stats = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const total = sorted.reduce((sum, value) => sum + value, 0);
+  return { total, mean: total / sorted.length, median: median(sorted), max: sorted[sorted.length - 1] };
+};
+
+/**
+ * Distance and travel time statistics per origin, busiest origin first.
+ * Failed rows are left out.
+ */
+const summarizeByOrigin = (rows: ResultTableRow[]): OriginSummary[] => {
+  const groups = new Map<string, ResultTableRow[]>();
+  for (const row of rows) {
+    if (row.distance === null) continue;
+    const group = groups.get(row.origin);
+    if (group) group.push(row);
+    else groups.set(row.origin, [row]);
+  }
+
+  return Array.from(groups, ([origin, group]): OriginSummary => {
+    const distance = stats(group.map(row => row.distance as number));
+    const minutesValues = group.map(row => row.minutes).filter((m): m is number => m !== null);
+    const minutes = minutesValues.length > 0 ? stats(minutesValues) : null;
+    return {
+      origin,
+      count: group.length,
+      totalDistance: distance.total,
+      meanDistance: distance.mean,
+      medianDistance: distance.median,
+      maxDistance: distance.max,
+      totalMinutes: minutes?.total ?? null,
+      meanMinutes: minutes?.mean ?? null,
+      medianMinutes: minutes?.median ?? null,
+      maxMinutes: minutes?.max ?? null,
+    };
+  }).sort((a, b) => b.count - a.count || a.origin.localeCompare(b.origin, undefined, { numeric: true }));
+};
+
+export { EMPTY_FILTER, buildResultRows, filterResultRows, sortResultRows, median, summarizeByOrigin };
+export type { ResultStatus, ResultTableRow, SortKey, ResultFilter, OriginSummary };
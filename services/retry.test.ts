@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RoutingError, TransientRoutingError } from './errors';
+import { computeBackoff, withRetry } from './retry';
+
+const fast = { baseDelayMs: 1, maxDelayMs: 1 };
+
+describe('computeBackoff', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('doubles the ceiling each attempt up to the maximum', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(computeBackoff(0, 100, 1000)).toBe(100);
+    expect(computeBackoff(2, 100, 1000)).toBe(400);
+    expect(computeBackoff(5, 100, 1000)).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient errors until the call succeeds', async () => {
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new TransientRoutingError('busy'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+    await expect(withRetry(fn, { ...fast, onRetry })).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number), expect.any(TransientRoutingError));
+  });
+
+  it('gives up after the last retry', async () => {
+    const fn = vi.fn().mockRejectedValue(new TransientRoutingError('busy'));
+    await expect(withRetry(fn, { ...fast, retries: 2 })).rejects.toThrow('busy');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other errors', async () => {
+    const fn = vi.fn().mockRejectedValue(new RoutingError('no route'));
+    await expect(withRetry(fn, fast)).rejects.toThrow('no route');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits at least as long as the service asks', async () => {
+    const onRetry = vi.fn();
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new TransientRoutingError('busy', { retryAfterMs: 20 }))
+      .mockResolvedValue('ok');
+    await withRetry(fn, { ...fast, onRetry });
+    expect(onRetry.mock.calls[0][1]).toBe(20);
+  });
+});
@@ -0,0 +1,51 @@
+import { isRetryableError } from './errors';
+
+interface RetryOptions {
+  /** Retries after the first attempt. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Called before each retry, e.g. to surface it in the UI. */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * base * 2^attempt, capped at maxDelayMs.
+ */
+const computeBackoff = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+};
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `fn`, retrying it with backoff while it fails with a retryable error.
+ * Any other error, or the last retryable one, is rethrown.
+ */
+const withRetry = async <T>(fn: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs, onRetry } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (!isRetryableError(error) || attempt >= retries) {
+        throw error;
+      }
+      const delayMs = Math.max(error.retryAfterMs ?? 0, computeBackoff(attempt, baseDelayMs, maxDelayMs));
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs);
+    }
+  }
+};
+
+export type { RetryOptions };
+export { DEFAULT_RETRY_OPTIONS, computeBackoff, withRetry };
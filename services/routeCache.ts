@@ -0,0 +1,184 @@
+import type { DrivingInfo, RouteCacheEntry, RouteOptions } from '../types';
+import { STORES, promisify, withStore } from './db';
+import { locationKey, parseLocation } from './location';
+import { DEFAULT_ROUTE_OPTIONS, routeOptionsKey } from './routeOptions';
+import { getActiveProvider, getDrivingInfo } from './routingService';
+import { normalizeTravelTime } from './travelTime';
+
+/** Cached routes older than this are looked up again. */
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Locations are keyed by their canonical form (see `locationKey`), so
+ * ' Pune ' and 'pune' share an entry, as do '400 001' and '400001'.
+ */
+const normalizeLocation = (value: string): string => locationKey(parseLocation(value));
+
+/**
+ * Default options add nothing to the key, so entries cached before route
+ * options existed keep matching.
+ */
+const cacheKey = (provider: string, origin: string, destination: string, options = DEFAULT_ROUTE_OPTIONS): string => {
+  const parts = [provider, normalizeLocation(origin), normalizeLocation(destination)];
+  const optionsKey = routeOptionsKey(options);
+  return (optionsKey ? [...parts, optionsKey] : parts).join('|');
+};
+
+const isFresh = (entry: RouteCacheEntry, now = Date.now()): boolean => now - entry.cachedAt < CACHE_TTL_MS;
+
+const getCachedRoute = async (
+  provider: string,
+  origin: string,
+  destination: string,
+  options: RouteOptions,
+): Promise<RouteCacheEntry | null> => {
+  const key = cacheKey(provider, origin, destination, options);
+  const entry = await withStore(STORES.routeCache, 'readonly', store =>
+    promisify<RouteCacheEntry | undefined>(store.get(key)));
+  if (!entry) return null;
+  if (!isFresh(entry)) {
+    await withStore(STORES.routeCache, 'readwrite', store => promisify(store.delete(key)));
+    return null;
+  }
+  return entry;
+};
+
+const putCachedRoute = (
+  provider: string,
+  origin: string,
+  destination: string,
+  options: RouteOptions,
+  info: DrivingInfo,
+): Promise<void> => {
+  const entry: RouteCacheEntry = {
+    key: cacheKey(provider, origin, destination, options),
+    origin: origin.trim(),
+    destination: destination.trim(),
+    provider,
+    options,
+    info,
+    cachedAt: Date.now(),
+  };
+  return withStore(STORES.routeCache, 'readwrite', async store => {
+    await promisify(store.put(entry));
+  });
+};
+
+/**
+ * `getDrivingInfo` through the route cache. On a miss the route is fetched
+ * with `fetchRoute` (by default a plain provider call; bulk jobs pass one that
+ * is rate limited and retried). Cache failures, e.g. IndexedDB being
+ * unavailable, are logged and fall through to the provider.
+ */
+const getDrivingInfoCached = async (
+  origin: string,
+  destination: string,
+  options: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+  fetchRoute: (origin: string, destination: string, options: RouteOptions) => Promise<DrivingInfo> = getDrivingInfo,
+): Promise<{ info: DrivingInfo; fromCache: boolean }> => {
+  // Outside the browser (the command-line runner) there is no cache.
+  if (typeof indexedDB === 'undefined') {
+    return { info: await fetchRoute(origin, destination, options), fromCache: false };
+  }
+  const provider = getActiveProvider().id;
+
+  const cached = await getCachedRoute(provider, origin, destination, options).catch(err => {
+    console.error('Route cache lookup failed:', err);
+    return null;
+  });
+  if (cached) {
+    // Entries cached before durations were recorded only have the text. A
+    // cache hit uses no tokens, so the original lookup's usage is dropped.
+    const { usage, ...info } = normalizeTravelTime(cached.info);
+    return { info: { ...info, options }, fromCache: true };
+  }
+
+  const info = await fetchRoute(origin, destination, options);
+  await putCachedRoute(provider, origin, destination, options, info).catch(err => console.error('Could not cache route:', err));
+  return { info, fromCache: false };
+};
+
+/**
+ * How many distinct routes among `trips` are not in the cache for the active
+ * provider, i.e. how many provider calls running them would take.
+ */
+const countUncachedRoutes = async (trips: Array<{ origin: string; destination: string; options: RouteOptions }>): Promise<number> => {
+  const provider = getActiveProvider().id;
+  const keys = new Set(trips.map(({ origin, destination, options }) => cacheKey(provider, origin, destination, options)));
+  if (typeof indexedDB === 'undefined') return keys.size;
+  const now = Date.now();
+  const cached = await withStore(STORES.routeCache, 'readonly', store =>
+    Promise.all(Array.from(keys, key => promisify<RouteCacheEntry | undefined>(store.get(key)))));
+  return cached.filter(entry => !entry || !isFresh(entry, now)).length;
+};
+
+const listCachedRoutes = (): Promise<RouteCacheEntry[]> =>
+  withStore(STORES.routeCache, 'readonly', store => promisify<RouteCacheEntry[]>(store.getAll()));
+
+const clearRouteCache = (): Promise<void> =>
+  withStore(STORES.routeCache, 'readwrite', async store => {
+    await promisify(store.clear());
+  });
+
+const isCacheEntry = (value: unknown): value is RouteCacheEntry => {
+  const entry = value as RouteCacheEntry;
+  return !!entry
+    && typeof entry.origin === 'string'
+    && typeof entry.destination === 'string'
+    && typeof entry.provider === 'string'
+    && typeof entry.cachedAt === 'number'
+    && typeof entry.info?.distance === 'number'
+    && typeof entry.info?.travelTime === 'string'
+    && typeof entry.info?.routeSummary === 'string';
+};
+
+/**
+ * Serializes every cache entry as JSON, for download.
+ */
+const exportRouteCache = async (): Promise<string> => {
+  const entries = await listCachedRoutes();
+  return JSON.stringify({ version: 1, entries }, null, 2);
+};
+
+/**
+ * Merges entries from an exported cache file, keeping whichever copy of an
+ * entry is newer. Returns the number of entries imported.
+ */
+const importRouteCache = async (json: string): Promise<number> => {
+  const parsed = JSON.parse(json);
+  const entries: unknown[] = Array.isArray(parsed) ? parsed : parsed?.entries;
+  if (!Array.isArray(entries)) {
+    throw new Error('This file is not a route cache export.');
+  }
+  const valid = entries.filter(isCacheEntry);
+  if (valid.length === 0 && entries.length > 0) {
+    throw new Error('The file does not contain any valid cache entries.');
+  }
+
+  return withStore(STORES.routeCache, 'readwrite', async store => {
+    let imported = 0;
+    for (const exported of valid) {
+      // Exports from before route options existed were made with the defaults.
+      const entry = { ...exported, options: exported.options ?? DEFAULT_ROUTE_OPTIONS };
+      const key = cacheKey(entry.provider, entry.origin, entry.destination, entry.options);
+      const existing = await promisify<RouteCacheEntry | undefined>(store.get(key));
+      if (!existing || existing.cachedAt < entry.cachedAt) {
+        await promisify(store.put({ ...entry, key }));
+        imported++;
+      }
+    }
+    return imported;
+  });
+};
+
+export {
+  CACHE_TTL_MS,
+  cacheKey,
+  isFresh,
+  getDrivingInfoCached,
+  countUncachedRoutes,
+  listCachedRoutes,
+  clearRouteCache,
+  exportRouteCache,
+  importRouteCache,
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ROUTE_OPTIONS, describeRouteOptions, parseRouteOptions, routeOptionsKey } from './routeOptions';
+
+const departure = (departureTime: string) => parseRouteOptions({ departureTime }).departureTime;
+
+describe('parseRouteOptions', () => {
+  it('keeps the defaults for blank cells', () => {
+    expect(parseRouteOptions({ vehicle: ' ', avoidTolls: '' })).toEqual(DEFAULT_ROUTE_OPTIONS);
+  });
+
+  it('reads vehicle aliases and yes/no flags', () => {
+    expect(parseRouteOptions({ vehicle: 'Lorry', avoidTolls: 'Y', avoidHighways: 'false' })).toEqual({
+      ...DEFAULT_ROUTE_OPTIONS, vehicle: 'truck', avoidTolls: true,
+    });
+    expect(() => parseRouteOptions({ vehicle: 'boat' })).toThrow('Unknown vehicle type "boat"');
+    expect(() => parseRouteOptions({ avoidTolls: 'maybe' })).toThrow('avoid tolls column');
+  });
+});
+
+describe('departure times', () => {
+  it('accepts a date and time or a time of day', () => {
+    expect(departure('2025-01-31T08:30')).toBe('2025-01-31T08:30');
+    expect(departure(' 2025-01-31 08:30 ')).toBe('2025-01-31T08:30');
+    expect(departure('08:30')).toBe('08:30');
+    expect(departure('8:30')).toBe('08:30');
+    expect(departure('23:59')).toBe('23:59');
+  });
+
+  it.each([
+    'tomorrow',
+    '2025',
+    'Jan 31 2025',
+    '31/01/2025 08:30',
+    '2025-01-31',
+    '2025-01-31T08:30:00Z',
+    '2025-01-31T08:30+05:30',
+    '24:00',
+    '08:60',
+    '0830',
+    '2025-02-30T08:30',
+    '2025-13-01T08:30',
+  ])('rejects %j', value => {
+    expect(() => departure(value)).toThrow('is not a departure date and time');
+  });
+});
+
+describe('routeOptionsKey', () => {
+  it('is empty for the defaults and lists the changes otherwise', () => {
+    expect(routeOptionsKey(DEFAULT_ROUTE_OPTIONS)).toBe('');
+    expect(routeOptionsKey({ vehicle: 'truck', avoidTolls: true, avoidHighways: false, departureTime: '08:30' }))
+      .toBe('truck,no-tolls,at 08:30');
+  });
+});
+
+describe('describeRouteOptions', () => {
+  it('summarizes the options for display', () => {
+    expect(describeRouteOptions({ vehicle: 'truck', avoidTolls: true, avoidHighways: false, departureTime: '2025-01-31T08:30' }))
+      .toBe('Truck, avoiding tolls, departing 2025-01-31 08:30');
+  });
+});
@@ -0,0 +1,127 @@
+import type { RouteOptions, VehicleType } from '../types';
+
+const DEFAULT_ROUTE_OPTIONS: RouteOptions = {
+  vehicle: 'car',
+  avoidTolls: false,
+  avoidHighways: false,
+  departureTime: '',
+};
+
+/**
+ * `speedFactor` is the vehicle's typical average speed relative to a car,
+ * used by the offline providers.
+ */
+const VEHICLES: Record<VehicleType, { label: string; description: string; speedFactor: number }> = {
+  'two-wheeler': { label: 'Two-wheeler', description: 'a motorcycle or scooter', speedFactor: 0.85 },
+  car: { label: 'Car', description: 'a car', speedFactor: 1 },
+  lcv: { label: 'Light commercial vehicle', description: 'a light commercial vehicle (up to 7.5 t)', speedFactor: 0.85 },
+  truck: { label: 'Truck', description: 'a heavy goods truck', speedFactor: 0.7 },
+};
+
+/** Average speed relative to the highway route when highways are avoided. */
+const NO_HIGHWAY_SPEED_FACTOR = 0.8;
+
+/**
+ * Multiplier for a car's average speed under the given options.
+ */
+const speedFactor = (options: RouteOptions): number =>
+  VEHICLES[options.vehicle].speedFactor * (options.avoidHighways ? NO_HIGHWAY_SPEED_FACTOR : 1);
+
+const VEHICLE_ALIASES: Record<string, VehicleType> = {
+  'two-wheeler': 'two-wheeler',
+  'two wheeler': 'two-wheeler',
+  '2-wheeler': 'two-wheeler',
+  '2 wheeler': 'two-wheeler',
+  '2w': 'two-wheeler',
+  bike: 'two-wheeler',
+  motorcycle: 'two-wheeler',
+  scooter: 'two-wheeler',
+  car: 'car',
+  '4w': 'car',
+  lcv: 'lcv',
+  'light commercial vehicle': 'lcv',
+  tempo: 'lcv',
+  van: 'lcv',
+  pickup: 'lcv',
+  truck: 'truck',
+  hcv: 'truck',
+  lorry: 'truck',
+};
+
+const parseVehicle = (value: string): VehicleType => {
+  const vehicle = VEHICLE_ALIASES[value.trim().toLowerCase()];
+  if (!vehicle) {
+    throw new Error(`Unknown vehicle type "${value}". Use two-wheeler, car, LCV or truck.`);
+  }
+  return vehicle;
+};
+
+const parseFlag = (value: string, column: string): boolean => {
+  const flag = value.trim().toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(flag)) return true;
+  if (['no', 'n', 'false', '0'].includes(flag)) return false;
+  throw new Error(`"${value}" in the ${column} column is not yes or no.`);
+};
+
+/**
+ * Accepts a local date and time ('2025-01-31T08:30', or with a space instead
+ * of the T) or a time of day ('08:30' or '8:30'), and returns it in the
+ * form RouteOptions keeps.
+ */
+const parseDepartureTime = (value: string): string => {
+  const match = value.trim().match(/^(?:(\d{4})-(\d{2})-(\d{2})[T ])?(\d{1,2}):(\d{2})$/);
+  if (match) {
+    const [, year, month, day, hours, minutes] = match;
+    const time = `${hours.padStart(2, '0')}:${minutes}`;
+    if (Number(hours) <= 23 && Number(minutes) <= 59) {
+      if (!year) return time;
+      // Date.UTC rolls 31 February over into March; a real date survives the round trip.
+      const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+      if (date.toISOString().slice(0, 10) === `${year}-${month}-${day}`) return `${year}-${month}-${day}T${time}`;
+    }
+  }
+  throw new Error(`"${value}" is not a departure date and time (YYYY-MM-DDTHH:MM) or time of day (HH:MM).`);
+};
+
+/**
+ * Reads per-row options from whichever option columns the file has. Blank
+ * cells keep the value from `defaults`; unreadable ones throw.
+ */
+const parseRouteOptions = (
+  values: { vehicle?: string; avoidTolls?: string; avoidHighways?: string; departureTime?: string },
+  defaults: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+): RouteOptions => {
+  const present = (value?: string): value is string => value !== undefined && value.trim() !== '';
+  return {
+    vehicle: present(values.vehicle) ? parseVehicle(values.vehicle) : defaults.vehicle,
+    avoidTolls: present(values.avoidTolls) ? parseFlag(values.avoidTolls, 'avoid tolls') : defaults.avoidTolls,
+    avoidHighways: present(values.avoidHighways) ? parseFlag(values.avoidHighways, 'avoid highways') : defaults.avoidHighways,
+    departureTime: present(values.departureTime) ? parseDepartureTime(values.departureTime) : defaults.departureTime,
+  };
+};
+
+/**
+ * Stable key for the route cache. The default options map to an empty key,
+ * so routes cached before options existed stay valid.
+ */
+const routeOptionsKey = (options: RouteOptions): string => {
+  const parts: string[] = [];
+  if (options.vehicle !== DEFAULT_ROUTE_OPTIONS.vehicle) parts.push(options.vehicle);
+  if (options.avoidTolls) parts.push('no-tolls');
+  if (options.avoidHighways) parts.push('no-highways');
+  if (options.departureTime) parts.push(`at ${options.departureTime}`);
+  return parts.join(',');
+};
+
+/**
+ * Short human readable summary, e.g. 'Truck, avoiding tolls, departing 08:30'.
+ */
+const describeRouteOptions = (options: RouteOptions): string => {
+  const parts = [VEHICLES[options.vehicle].label];
+  if (options.avoidTolls) parts.push('avoiding tolls');
+  if (options.avoidHighways) parts.push('avoiding highways');
+  if (options.departureTime) parts.push(`departing ${options.departureTime.replace('T', ' ')}`);
+  return parts.join(', ');
+};
+
+export { DEFAULT_ROUTE_OPTIONS, VEHICLES, speedFactor, parseRouteOptions, routeOptionsKey, describeRouteOptions };
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ROAD_FACTOR, haversineDistance, lookupPinCode } from './gazetteer';
+import { getDrivingInfoCached } from './routeCache';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+import { buildDistanceMatrix, buildDirectionsUrl, nearestNeighbourOrder, planRoute, twoOpt } from './routePlanner';
+
+vi.mock('./routeCache', () => ({
+  getDrivingInfoCached: vi.fn(async (origin: string, destination: string) => {
+    if (destination === 'Atlantis') throw new Error('No route found.');
+    return {
+      info: {
+        distance: origin.length + destination.length, travelTime: '1 hour', durationMinutes: 60, routeSummary: '',
+        usage: { promptTokens: 10, outputTokens: 20 },
+      },
+      fromCache: false,
+    };
+  }),
+}));
+
+/** Stops on a line at these kilometre marks. */
+const lineMatrix = (marks: number[]) => marks.map(a => marks.map(b => Math.abs(a - b)));
+
+describe('nearestNeighbourOrder', () => {
+  it('always drives to the closest unvisited stop', () => {
+    expect(nearestNeighbourOrder(lineMatrix([0, 30, 10, 20]))).toEqual([0, 2, 3, 1]);
+  });
+
+  it('returns to the start for a round trip', () => {
+    expect(nearestNeighbourOrder(lineMatrix([0, 30, 10]), true)).toEqual([0, 2, 1, 0]);
+  });
+});
+
+describe('twoOpt', () => {
+  it('untangles crossing legs', () => {
+    const matrix = lineMatrix([0, 10, 20, 30]);
+    expect(twoOpt([0, 2, 1, 3], matrix)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('keeps the start fixed', () => {
+    const matrix = lineMatrix([15, 0, 30]);
+    expect(twoOpt([0, 2, 1], matrix)[0]).toBe(0);
+  });
+});
+
+describe('buildDistanceMatrix', () => {
+  it('uses estimated road distances when every stop is known', async () => {
+    const { distances: matrix, usage } = await buildDistanceMatrix(['110001', '400001', '18.5204,73.8567']);
+    const expected = haversineDistance(lookupPinCode('110001'), lookupPinCode('400001')) * ROAD_FACTOR;
+    expect(matrix[0][1]).toBeCloseTo(expected);
+    expect(matrix[1][0]).toBe(matrix[0][1]);
+    expect(usage.calls).toBe(0);
+  });
+
+  it('looks up every pair through the provider when a stop is unknown', async () => {
+    const { distances: matrix } = await buildDistanceMatrix(['110001', '400001', 'Nowhereville']);
+    expect(matrix[0][1]).toBe(12);
+    expect(matrix[0][2]).toBe(18);
+    expect(matrix[2][1]).toBe(18);
+  });
+});
+
+describe('planRoute', () => {
+  it('looks legs up with the given route options', async () => {
+    const routeOptions = { ...DEFAULT_ROUTE_OPTIONS, avoidTolls: true };
+    const plan = await planRoute(['110001', 'Pune', '400001'], { optimize: false, returnToStart: false, routeOptions });
+    expect(plan.legs.map(leg => leg.to)).toEqual(['Pune', '400001']);
+    expect(vi.mocked(getDrivingInfoCached)).toHaveBeenCalledWith('110001', 'Pune', routeOptions, expect.any(Function));
+  });
+
+  it('totals the usage of the ordering and leg lookups', async () => {
+    const plan = await planRoute(['110001', '400001', 'Nowhereville'], { optimize: true, returnToStart: false });
+    // Three pairs to order the stops, then two legs.
+    expect(plan.usage).toEqual({ promptTokens: 50, outputTokens: 100, calls: 5 });
+  });
+
+  it('names the leg that could not be found', async () => {
+    await expect(planRoute(['110001', 'Pune', 'Atlantis'], { optimize: false, returnToStart: false }))
+      .rejects.toThrow('Leg 2 (Pune to Atlantis): No route found.');
+  });
+});
+
+describe('buildDirectionsUrl', () => {
+  it('routes through the middle stops as waypoints', () => {
+    const url = buildDirectionsUrl(['110001', 'Pune', '400001']);
+    expect(url).toContain('origin=110001');
+    expect(url).toContain('destination=400001');
+    expect(url).toContain('waypoints=Pune');
+  });
+});
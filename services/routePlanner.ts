@@ -0,0 +1,190 @@
+import type { BulkError, BulkSettings, BulkTask, DrivingInfo, RouteLeg, RouteOptions, RoutePlan, UsageTotal } from '../types';
+import { DEFAULT_BULK_SETTINGS, processBulkTasks } from './bulkProcessor';
+import { estimateRoadDistance } from './gazetteer';
+import { locate, mapsQuery, parseLocation } from './location';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+import { NO_USAGE_TOTAL, addCall } from './usage';
+
+type DistanceMatrix = number[][];
+
+interface PlanSettings {
+  routeOptions: RouteOptions;
+  settings: BulkSettings;
+}
+
+const DEFAULT_PLAN_SETTINGS: PlanSettings = { routeOptions: DEFAULT_ROUTE_OPTIONS, settings: DEFAULT_BULK_SETTINGS };
+
+/**
+ * Looks up every [from, to] pair through the bulk pipeline, so planning
+ * shares its rate limit, retries and route cache. Throws for the first pair
+ * that failed, described by `describeFailure`, since a plan with a missing
+ * leg is no plan at all.
+ */
+const lookupPairs = async (
+  pairs: Array<[string, string]>,
+  { routeOptions, settings }: PlanSettings,
+  describeFailure: (error: BulkError) => string = error => error.message,
+): Promise<DrivingInfo[]> => {
+  const tasks: BulkTask[] = pairs.map(([origin, destination], i) => ({
+    row: i, origin, destination, values: [origin, destination], options: routeOptions,
+  }));
+  const infos: DrivingInfo[] = new Array(pairs.length);
+  const errors: BulkError[] = [];
+  await processBulkTasks(tasks, settings, {
+    onResult: ({ row, distance, travelTime, durationMinutes, routeSummary, confidence, warnings, options, usage }) => {
+      infos[row] = { distance, travelTime, durationMinutes, routeSummary, confidence, warnings, options, usage };
+    },
+    onError: error => errors.push(error),
+  });
+  if (errors.length > 0) {
+    const first = errors.reduce((a, b) => (b.row < a.row ? b : a));
+    throw new Error(describeFailure(first));
+  }
+  return infos;
+};
+
+const pathLength = (order: number[], matrix: DistanceMatrix): number => {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += matrix[order[i - 1]][order[i]];
+  }
+  return total;
+};
+
+/**
+ * Greedy tour: from the start, always drive to the closest unvisited stop.
+ * With `returnToStart` the start is appended again at the end.
+ */
+const nearestNeighbourOrder = (matrix: DistanceMatrix, returnToStart = false): number[] => {
+  const order = [0];
+  const unvisited = new Set(matrix.map((_, i) => i).slice(1));
+  while (unvisited.size > 0) {
+    const current = order[order.length - 1];
+    let nearest = -1;
+    for (const candidate of unvisited) {
+      if (nearest === -1 || matrix[current][candidate] < matrix[current][nearest]) {
+        nearest = candidate;
+      }
+    }
+    order.push(nearest);
+    unvisited.delete(nearest);
+  }
+  if (returnToStart) order.push(0);
+  return order;
+};
+
+/**
+ * 2-opt improvement: reverses segments of the route while that shortens it.
+ * The first stop stays fixed, and so does the last one for a round trip.
+ */
+const twoOpt = (order: number[], matrix: DistanceMatrix, returnToStart = false): number[] => {
+  let best = [...order];
+  let bestLength = pathLength(best, matrix);
+  const lastMovable = returnToStart ? best.length - 2 : best.length - 1;
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < lastMovable; i++) {
+      for (let k = i + 1; k <= lastMovable; k++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+        const length = pathLength(candidate, matrix);
+        if (length < bestLength - 1e-9) {
+          best = candidate;
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Pairwise distances used for ordering, all measured the same way so they
+ * can be compared. When every stop has known coordinates they are the
+ * estimated road distances (straight line × road factor), which are free;
+ * otherwise every pair is looked up through the routing provider (and route
+ * cache), and `usage` is what those lookups used.
+ */
+const buildDistanceMatrix = async (
+  stops: string[],
+  plan: PlanSettings = DEFAULT_PLAN_SETTINGS,
+): Promise<{ distances: DistanceMatrix; usage: UsageTotal }> => {
+  const places = stops.map(stop => locate(parseLocation(stop)));
+  const matrix: DistanceMatrix = stops.map(() => stops.map(() => 0));
+  const pairs: Array<[number, number]> = [];
+
+  for (let i = 0; i < stops.length; i++) {
+    for (let j = i + 1; j < stops.length; j++) {
+      pairs.push([i, j]);
+    }
+  }
+
+  if (places.every(place => place)) {
+    for (const [i, j] of pairs) {
+      matrix[i][j] = matrix[j][i] = estimateRoadDistance(places[i], places[j]);
+    }
+    return { distances: matrix, usage: NO_USAGE_TOTAL };
+  }
+
+  const infos = await lookupPairs(pairs.map(([i, j]) => [stops[i], stops[j]]), plan);
+  pairs.forEach(([i, j], k) => {
+    matrix[i][j] = matrix[j][i] = infos[k].distance;
+  });
+  return { distances: matrix, usage: infos.reduce((total, info) => addCall(total, info.usage), NO_USAGE_TOTAL) };
+};
+
+/**
+ * Plans a route from `stops[0]` through the remaining stops. With `optimize`
+ * the stops after the first are reordered (nearest neighbour, then 2-opt) to
+ * shorten the total; otherwise they are visited in the order given. Each leg
+ * is then looked up through the routing provider with `routeOptions`, under
+ * the bulk rate limit and retry `settings`.
+ */
+const planRoute = async (
+  stops: string[],
+  options: { optimize: boolean; returnToStart: boolean } & Partial<PlanSettings>,
+): Promise<RoutePlan> => {
+  const plan: PlanSettings = { ...DEFAULT_PLAN_SETTINGS, ...options };
+  if (stops.length < 2) {
+    throw new Error('A route needs a start and at least one stop.');
+  }
+
+  let order = stops.map((_, i) => i);
+  let usage = NO_USAGE_TOTAL;
+  if (options.returnToStart) order.push(0);
+  if (options.optimize && stops.length > 2) {
+    const matrix = await buildDistanceMatrix(stops, plan);
+    order = twoOpt(nearestNeighbourOrder(matrix.distances, options.returnToStart), matrix.distances, options.returnToStart);
+    usage = matrix.usage;
+  }
+
+  const ordered = order.map(i => stops[i]);
+  const pairs = ordered.slice(1).map((to, i): [string, string] => [ordered[i], to]);
+  const infos = await lookupPairs(pairs, plan, ({ row, origin, destination, message }) =>
+    `Leg ${row + 1} (${origin} to ${destination}): ${message}`);
+  const legs: RouteLeg[] = pairs.map(([from, to], i) => ({ from, to, info: infos[i] }));
+
+  const minutes = legs.map(leg => leg.info.durationMinutes);
+  usage = legs.reduce((total, leg) => addCall(total, leg.info.usage), usage);
+  return {
+    stops: ordered,
+    legs,
+    totalDistance: legs.reduce((sum, leg) => sum + leg.info.distance, 0),
+    totalMinutes: minutes.some(m => m === undefined) ? null : minutes.reduce<number>((sum, m) => sum + (m ?? 0), 0),
+    usage,
+  };
+};
+
+/**
+ * Google Maps directions link through every stop in order.
+ */
+const buildDirectionsUrl = (stops: string[]): string => {
+  const place = (value: string) => encodeURIComponent(mapsQuery(parseLocation(value)));
+  const waypoints = stops.slice(1, -1).map(place).join('%7C');
+  return `https://www.google.com/maps/dir/?api=1&origin=${place(stops[0])}&destination=${place(stops[stops.length - 1])}`
+    + (waypoints ? `&waypoints=${waypoints}` : '');
+};
+
+export { nearestNeighbourOrder, twoOpt, buildDistanceMatrix, planRoute, buildDirectionsUrl };
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { RoutingProvider } from '../types';
+import { getActiveProvider, getDrivingInfo, getProvider, registerProvider, setActiveProvider } from './routingService';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+
+const offlineProvider: RoutingProvider = {
+  id: 'test-offline',
+  name: 'Unavailable',
+  isAvailable: () => false,
+  getDrivingInfo: async () => {
+    throw new Error('should not be called');
+  },
+};
+
+describe('routingService', () => {
+  afterEach(() => setActiveProvider('api'));
+
+  it('registers and activates providers by id', () => {
+    registerProvider(offlineProvider);
+    expect(getProvider('test-offline')).toBe(offlineProvider);
+    setActiveProvider('test-offline');
+    expect(getActiveProvider()).toBe(offlineProvider);
+  });
+
+  it('rejects unknown providers', () => {
+    expect(() => setActiveProvider('nope')).toThrow('not registered');
+  });
+
+  it('falls back to the straight-line estimate when the active provider is unavailable', async () => {
+    registerProvider(offlineProvider);
+    setActiveProvider('test-offline');
+    const info = await getDrivingInfo('110001', '400001');
+    expect(info.routeSummary).toMatch(/^Estimate:/);
+    expect(info.options).toEqual(DEFAULT_ROUTE_OPTIONS);
+  });
+});
@@ -0,0 +1,71 @@
+import type { DrivingInfo, RouteOptions, RoutingProvider } from '../types';
+import { apiProvider } from './apiService';
+import { mockProvider } from './mockService';
+import { estimateProvider } from './estimateService';
+import { parseLocation } from './location';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+import { normalizeTravelTime } from './travelTime';
+import { validateDrivingInfo } from './validation';
+
+const providers = new Map<string, RoutingProvider>();
+
+const registerProvider = (provider: RoutingProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+const getProvider = (id: string): RoutingProvider | undefined => providers.get(id);
+
+const listProviders = (): RoutingProvider[] => Array.from(providers.values());
+
+registerProvider(apiProvider);
+registerProvider(mockProvider);
+registerProvider(estimateProvider);
+
+/**
+ * The configured provider (ROUTING_PROVIDER), or else the routing server.
+ * Gemini is only called from the server, which holds the API key.
+ */
+const defaultProviderId = (): string => {
+  const configured = process.env.ROUTING_PROVIDER;
+  if (configured && providers.has(configured)) {
+    return configured;
+  }
+  return apiProvider.id;
+};
+
+let activeProviderId = defaultProviderId();
+
+const getActiveProvider = (): RoutingProvider => {
+  const provider = providers.get(activeProviderId);
+  if (!provider) {
+    throw new Error(`Routing provider "${activeProviderId}" is not registered.`);
+  }
+  return provider;
+};
+
+const setActiveProvider = (id: string): void => {
+  if (!providers.has(id)) {
+    throw new Error(`Routing provider "${id}" is not registered.`);
+  }
+  activeProviderId = id;
+};
+
+/**
+ * Looks up a route between two locations (pin codes, place names or
+ * "lat,lon" pairs; see location.ts) through the active provider, or through the straight-line
+ * estimate when that provider is not available. The travel time is
+ * normalized, the route scored for plausibility (see validation.ts) and the
+ * options recorded on the result.
+ */
+const getDrivingInfo = async (
+  origin: string,
+  destination: string,
+  options: RouteOptions = DEFAULT_ROUTE_OPTIONS,
+): Promise<DrivingInfo> => {
+  const active = getActiveProvider();
+  const provider = active.isAvailable() ? active : estimateProvider;
+  const info = normalizeTravelTime(await provider.getDrivingInfo(parseLocation(origin), parseLocation(destination), options));
+  return { ...info, ...validateDrivingInfo(origin, destination, info), options };
+};
+
+export { registerProvider, getProvider, listProviders, getActiveProvider, setActiveProvider, getDrivingInfo };
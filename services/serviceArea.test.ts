@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { PinCodeRecord, RoutingProvider } from '../types';
+import { DEFAULT_BULK_SETTINGS } from './bulkProcessor';
+import { haversineDistance, listPinCodes, lookupPinCode } from './gazetteer';
+import { JobController } from './jobRunner';
+import { getDrivingInfoCached } from './routeCache';
+import { DEFAULT_ROUTE_OPTIONS } from './routeOptions';
+import { registerProvider, setActiveProvider } from './routingService';
+import { MAX_SHORTLIST, findServiceArea, serviceAreaToTable } from './serviceArea';
+
+vi.mock('./gazetteer', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./gazetteer')>();
+  return { ...actual, listPinCodes: vi.fn(actual.listPinCodes) };
+});
+
+// Skip the IndexedDB cache and always ask the provider.
+vi.mock('./routeCache', () => ({
+  getDrivingInfoCached: vi.fn(async (origin, destination, options, fetchRoute) => ({
+    info: await fetchRoute(origin, destination, options),
+    fromCache: false,
+  })),
+}));
+
+/** Every route is 5 km; for places the estimate provider can't place. */
+const flatProvider: RoutingProvider = {
+  id: 'test-flat',
+  name: 'Flat',
+  isAvailable: () => true,
+  getDrivingInfo: async () => ({ distance: 5, travelTime: '10 mins', durationMinutes: 10, routeSummary: '' }),
+};
+registerProvider(flatProvider);
+
+const mumbai = lookupPinCode('400001')!;
+
+/** Made-up post offices spaced about 100 m apart going north from Mumbai GPO. */
+const nearbyOffices = (count: number): PinCodeRecord[] => Array.from({ length: count }, (_, i) => ({
+  ...mumbai,
+  pinCode: String(400100 + i),
+  officeName: `Office ${i}`,
+  latitude: mumbai.latitude + (i + 1) * 0.001,
+}));
+
+/** No throttling: these lookups are all local. */
+const SETTINGS = { ...DEFAULT_BULK_SETTINGS, concurrency: 10, requestsPerMinute: 1_000_000 };
+
+const lookedUp = () => vi.mocked(getDrivingInfoCached).mock.calls.map(([, destination]) => destination);
+
+const search = (kind: 'distance' | 'time', value: number, controller?: JobController) =>
+  findServiceArea('400001', { kind, value }, DEFAULT_ROUTE_OPTIONS, SETTINGS, undefined, controller);
+
+afterEach(() => {
+  vi.mocked(getDrivingInfoCached).mockClear();
+  setActiveProvider('api');
+});
+
+describe('findServiceArea', () => {
+  it('looks up by road only the places within the limit as the crow flies', async () => {
+    setActiveProvider('estimate');
+    const result = await search('distance', 200);
+    const inRange = listPinCodes().filter(r => r.pinCode !== '400001' && haversineDistance(mumbai, r) <= 200);
+    expect(lookedUp().sort()).toEqual(inRange.map(r => r.pinCode).sort());
+    expect(result.notChecked).toBe(0);
+  });
+
+  it('keeps the places within the limit by road, nearest first', async () => {
+    setActiveProvider('estimate');
+    const result = await search('distance', 200);
+    expect(result.places.length).toBeGreaterThan(0);
+    expect(result.places.length).toBeLessThan(lookedUp().length);
+    for (const place of result.places) {
+      expect(place.info!.distance).toBeLessThanOrEqual(200);
+    }
+    const distances = result.places.map(place => place.info!.distance);
+    expect(distances).toEqual([...distances].sort((a, b) => a - b));
+  });
+
+  it('prefilters a time limit at 90 km of straight line per hour', async () => {
+    setActiveProvider('estimate');
+    await search('time', 120);
+    const destinations = lookedUp();
+    expect(destinations.length).toBeGreaterThan(0);
+    for (const pinCode of destinations) {
+      expect(haversineDistance(mumbai, lookupPinCode(pinCode)!)).toBeLessThanOrEqual(180);
+    }
+  });
+
+  it('looks up at most the nearest MAX_SHORTLIST places and counts the rest as not checked', async () => {
+    setActiveProvider('test-flat');
+    const offices = nearbyOffices(MAX_SHORTLIST + 50);
+    vi.mocked(listPinCodes).mockReturnValueOnce([mumbai, ...offices.slice().reverse()]);
+    const result = await search('distance', 100);
+    expect(lookedUp().sort()).toEqual(offices.slice(0, MAX_SHORTLIST).map(r => r.pinCode).sort());
+    expect(result.places).toHaveLength(MAX_SHORTLIST);
+    expect(result.notChecked).toBe(50);
+  });
+
+  it('counts places left after a cancel as not checked', async () => {
+    setActiveProvider('test-flat');
+    vi.mocked(listPinCodes).mockReturnValueOnce([mumbai, ...nearbyOffices(20)]);
+    const controller = new JobController();
+    controller.cancel();
+    const result = await search('distance', 100, controller);
+    expect(result.places).toEqual([]);
+    expect(result.notChecked).toBe(20);
+  });
+
+  it('lists places whose lookup failed', async () => {
+    // The estimate provider cannot place made-up pin codes.
+    setActiveProvider('estimate');
+    vi.mocked(listPinCodes).mockReturnValueOnce([mumbai, ...nearbyOffices(3)]);
+    const result = await search('distance', 100);
+    expect(result.failed.map(place => place.record.pinCode)).toEqual(['400100', '400101', '400102']);
+    expect(result.failed[0].error).toContain('not in the offline gazetteer');
+    expect(result.notChecked).toBe(0);
+  });
+
+  it('rejects unknown origins and limits that are not positive', async () => {
+    await expect(findServiceArea('Atlantis', { kind: 'distance', value: 50 }, DEFAULT_ROUTE_OPTIONS, SETTINGS))
+      .rejects.toThrow('is not in the pin code directory');
+    await expect(search('time', 0)).rejects.toThrow('Please enter a travel time greater than zero.');
+    await expect(search('distance', NaN)).rejects.toThrow('Please enter a distance greater than zero.');
+  });
+});
+
+describe('serviceAreaToTable', () => {
+  it('writes one row per place within the limit', async () => {
+    setActiveProvider('test-flat');
+    vi.mocked(listPinCodes).mockReturnValueOnce([mumbai, ...nearbyOffices(2)]);
+    const table = serviceAreaToTable(await search('distance', 100));
+    expect(table[0]).toEqual([
+      'Pin Code', 'Office', 'District', 'State', 'Straight Line (km)', 'Distance (km)', 'Travel Time', 'Travel Time (min)', 'Route Summary',
+    ]);
+    expect(table.slice(1).map(row => row.slice(0, 2))).toEqual([['400100', 'Office 0'], ['400101', 'Office 1']]);
+    expect(table[1].slice(4, 8)).toEqual([0.1, 5, '10 mins', 10]);
+  });
+});
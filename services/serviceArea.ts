@@ -0,0 +1,124 @@
+import type {
+  BulkSettings, BulkTask, DrivingInfo, PinCodeRecord, RouteOptions, ServiceAreaLimit, ServiceAreaPlace, ServiceAreaResult,
+} from '../types';
+import { processBulkTasks } from './bulkProcessor';
+import { haversineDistance, listPinCodes, resolvePlace } from './gazetteer';
+import { JobController } from './jobRunner';
+import { parseTravelTime } from './travelTime';
+import { NO_USAGE_TOTAL, addCall } from './usage';
+
+/** Most places looked up by road in one search, nearest first. */
+const MAX_SHORTLIST = 200;
+
+/**
+ * Generous upper bound on straight-line progress per hour of driving, in km.
+ * It only rules out places that cannot be reached in time.
+ */
+const MAX_STRAIGHT_LINE_SPEED = 90;
+
+/** Straight-line radius in km beyond which no place can be within the limit. */
+const prefilterRadius = (limit: ServiceAreaLimit): number =>
+  limit.kind === 'distance' ? limit.value : (limit.value / 60) * MAX_STRAIGHT_LINE_SPEED;
+
+/**
+ * Post offices within the prefilter radius of `origin`, nearest first. A road
+ * is never shorter than the straight line, so nothing outside can qualify.
+ */
+const shortlistPlaces = (origin: PinCodeRecord, limit: ServiceAreaLimit): ServiceAreaPlace[] => {
+  const radius = prefilterRadius(limit);
+  return listPinCodes()
+    .filter(record => record.pinCode !== origin.pinCode)
+    .map(record => ({ record, straightLineKm: haversineDistance(origin, record) }))
+    .filter(place => place.straightLineKm <= radius)
+    .sort((a, b) => a.straightLineKm - b.straightLineKm);
+};
+
+const isWithinLimit = (info: DrivingInfo, limit: ServiceAreaLimit): boolean => {
+  if (limit.kind === 'distance') {
+    return info.distance <= limit.value;
+  }
+  const minutes = info.durationMinutes ?? parseTravelTime(info.travelTime);
+  return minutes !== null && minutes <= limit.value;
+};
+
+/**
+ * Finds the pin codes reachable from `originValue` (a pin code or town)
+ * within `limit`. Places are prefiltered by straight-line distance, then the
+ * nearest `MAX_SHORTLIST` are looked up by road through the bulk pipeline,
+ * sharing its rate limiting, retries and route cache.
+ */
+const findServiceArea = async (
+  originValue: string,
+  limit: ServiceAreaLimit,
+  options: RouteOptions,
+  settings: BulkSettings,
+  onProgress?: (processed: number, total: number) => void,
+  controller?: JobController,
+): Promise<ServiceAreaResult> => {
+  const origin = resolvePlace(originValue);
+  if (!origin) {
+    throw new Error(`"${originValue.trim()}" is not in the pin code directory. Please enter a listed pin code or town.`);
+  }
+  if (!Number.isFinite(limit.value) || limit.value <= 0) {
+    throw new Error(`Please enter a ${limit.kind === 'distance' ? 'distance' : 'travel time'} greater than zero.`);
+  }
+
+  const candidates = shortlistPlaces(origin, limit);
+  const shortlist = candidates.slice(0, MAX_SHORTLIST);
+  const tasks: BulkTask[] = shortlist.map(({ record }, i) => ({
+    row: i,
+    origin: origin.pinCode,
+    destination: record.pinCode,
+    values: [origin.pinCode, record.pinCode],
+    options,
+  }));
+
+  let processed = 0;
+  let usage = NO_USAGE_TOTAL;
+  const settled = () => {
+    processed++;
+    onProgress?.(processed, tasks.length);
+  };
+  await processBulkTasks(tasks, settings, {
+    onResult: (result) => {
+      shortlist[result.row].info = result;
+      usage = addCall(usage, result.usage);
+      settled();
+    },
+    onError: (error) => {
+      shortlist[error.row].error = error.message;
+      settled();
+    },
+  }, controller);
+
+  return {
+    origin,
+    limit,
+    places: shortlist
+      .filter(place => place.info && isWithinLimit(place.info, limit))
+      .sort((a, b) => a.info!.distance - b.info!.distance),
+    failed: shortlist.filter(place => place.error),
+    notChecked: candidates.length - processed,
+    usage,
+  };
+};
+
+/**
+ * The places within the limit as a table, nearest first.
+ */
+const serviceAreaToTable = (result: ServiceAreaResult): unknown[][] => [
+  ['Pin Code', 'Office', 'District', 'State', 'Straight Line (km)', 'Distance (km)', 'Travel Time', 'Travel Time (min)', 'Route Summary'],
+  ...result.places.map(({ record, straightLineKm, info }) => [
+    record.pinCode,
+    record.officeName,
+    record.district,
+    record.state,
+    Math.round(straightLineKm * 10) / 10,
+    info!.distance,
+    info!.travelTime,
+    info!.durationMinutes ?? '',
+    info!.routeSummary,
+  ]),
+];
+
+export { MAX_SHORTLIST, findServiceArea, serviceAreaToTable };
@@ -0,0 +1,90 @@
+import * as XLSX from 'xlsx';
+import { describe, expect, it } from 'vitest';
+import { detectFormat, listSheets, readTable, readTableHeaders, writeTable } from './tableFormats';
+
+const workbookFile = (sheets: Record<string, unknown[][]>, name: string, bookType: XLSX.BookType = 'xlsx'): File => {
+  const workbook = XLSX.utils.book_new();
+  for (const [sheet, rows] of Object.entries(sheets)) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheet);
+  }
+  const bytes: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType });
+  return new File([bytes], name);
+};
+
+const sheets = {
+  Summary: [['Note'], ['ignore me']],
+  Routes: [['Origin', 'Destination'], [400001, 'Pune'], [110001, 'Agra']],
+};
+
+describe('detectFormat', () => {
+  it('goes by extension, then MIME type', () => {
+    expect(detectFormat({ name: 'routes.TSV' })).toBe('csv');
+    expect(detectFormat({ name: 'routes.xls' })).toBe('xlsx');
+    expect(detectFormat({ name: 'routes.jsonl' })).toBe('ndjson');
+    expect(detectFormat({ name: 'upload', type: 'application/json' })).toBe('json');
+    expect(detectFormat({ name: 'routes.pdf' })).toBeNull();
+  });
+});
+
+describe('Excel input', () => {
+  it('reads the first sheet by default and a chosen one on request', async () => {
+    const file = workbookFile(sheets, 'routes.xlsx');
+    expect(await listSheets(file)).toEqual(['Summary', 'Routes']);
+    expect((await readTable(file)).headers).toEqual(['Note']);
+    expect(await readTable(file, { sheet: 'Routes' })).toEqual({
+      headers: ['Origin', 'Destination'],
+      rows: [['400001', 'Pune'], ['110001', 'Agra']],
+    });
+    expect(await readTableHeaders(file, { sheet: 'Routes' })).toEqual(['Origin', 'Destination']);
+  });
+
+  it('reports a sheet that does not exist', async () => {
+    await expect(readTable(workbookFile(sheets, 'routes.xlsx'), { sheet: 'Missing' }))
+      .rejects.toThrow('no sheet named "Missing"');
+  });
+
+  it('reads legacy .xls workbooks', async () => {
+    const table = await readTable(workbookFile(sheets, 'routes.xls', 'biff8'), { sheet: 'Routes' });
+    expect(table.rows).toEqual([['400001', 'Pune'], ['110001', 'Agra']]);
+  });
+});
+
+describe('JSON input', () => {
+  it('takes columns from object keys in order of first appearance', async () => {
+    const file = new File([JSON.stringify([{ Origin: 400001 }, { Destination: 'Pune', Origin: '110001' }])], 'routes.json');
+    expect(await readTable(file)).toEqual({ headers: ['Origin', 'Destination'], rows: [['400001', ''], ['110001', 'Pune']] });
+  });
+
+  it('accepts arrays of rows and a wrapping rows property', async () => {
+    const file = new File([JSON.stringify({ rows: [['Origin', 'Destination'], ['400001', 'Pune']] })], 'routes.json');
+    expect((await readTable(file)).rows).toEqual([['400001', 'Pune']]);
+  });
+
+  it('rejects JSON that is not a list of records', async () => {
+    await expect(readTable(new File(['{"a":1}'], 'routes.json'))).rejects.toThrow('array of records');
+    await expect(readTable(new File(['[1, 2]'], 'routes.json'))).rejects.toThrow('must be an object');
+  });
+
+  it('names the bad line of an NDJSON file', async () => {
+    await expect(readTable(new File(['{"a":1}\n\n{oops}'], 'routes.ndjson'))).rejects.toThrow('Line 3');
+  });
+});
+
+describe('writeTable', () => {
+  const table = { headers: ['Origin', 'Distance (km)'], rows: [['400001', 150], ['110001', '']] };
+
+  it('keeps numbers numeric in Excel output', async () => {
+    const workbook = XLSX.read(new Uint8Array(await writeTable(table, 'xlsx').arrayBuffer()), { type: 'array' });
+    const sheet = workbook.Sheets.Results;
+    expect(sheet.B2).toMatchObject({ t: 'n', v: 150 });
+    expect(sheet.A2).toMatchObject({ t: 's', v: '400001' });
+  });
+
+  it('writes JSON records and NDJSON lines', async () => {
+    expect(JSON.parse(await writeTable(table, 'json').text())).toEqual([
+      { Origin: '400001', 'Distance (km)': 150 },
+      { Origin: '110001', 'Distance (km)': '' },
+    ]);
+    expect((await writeTable(table, 'ndjson').text()).split('\n')).toHaveLength(2);
+  });
+});
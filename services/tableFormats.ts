@@ -0,0 +1,182 @@
+import * as XLSX from 'xlsx';
+import { readCsvFile, readCsvHeaders, toCsv } from './csv';
+
+/**
+ * Reading and writing bulk tables in the formats we support: CSV, Excel
+ * workbooks, JSON (an array of objects or of arrays) and NDJSON (one object
+ * per line). Every format is reduced to a header row plus string rows.
+ */
+
+type TableFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+interface TableData {
+  headers: string[];
+  rows: string[][];
+}
+
+const FORMATS: Record<TableFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8;' },
+  xlsx: { label: 'Excel (.xlsx)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json;charset=utf-8;' },
+  ndjson: { label: 'NDJSON', extension: 'ndjson', mimeType: 'application/x-ndjson;charset=utf-8;' },
+};
+
+/** Value for a file input's accept attribute covering every input format. */
+const ACCEPTED_INPUT_TYPES = '.csv,.tsv,.txt,.xlsx,.xls,.json,.ndjson,.jsonl,text/csv,text/tab-separated-values,application/json,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+/**
+ * Works out a file's format from its extension, then its MIME type.
+ * Returns null for files we can't read.
+ */
+const detectFormat = (file: { name: string; type?: string }): TableFormat | null => {
+  const extension = file.name.toLowerCase().split('.').pop() ?? '';
+  if (['csv', 'tsv', 'txt'].includes(extension)) return 'csv';
+  if (['xlsx', 'xls'].includes(extension)) return 'xlsx';
+  if (extension === 'json') return 'json';
+  if (['ndjson', 'jsonl'].includes(extension)) return 'ndjson';
+  if (file.type === 'text/csv' || file.type === 'text/tab-separated-values') return 'csv';
+  if (file.type === 'application/json') return 'json';
+  if (file.type?.includes('spreadsheetml')) return 'xlsx';
+  return null;
+};
+
+const cellToString = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const readWorkbook = async (file: Blob): Promise<XLSX.WorkBook> => {
+  return XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+};
+
+/**
+ * Sheet names of an Excel workbook, in workbook order.
+ */
+const listSheets = async (file: Blob): Promise<string[]> => (await readWorkbook(file)).SheetNames;
+
+const readSheet = (workbook: XLSX.WorkBook, sheet?: string): TableData => {
+  const name = sheet ?? workbook.SheetNames[0];
+  const worksheet = workbook.Sheets[name];
+  if (!worksheet) {
+    throw new Error(`The workbook has no sheet named "${name}".`);
+  }
+  // raw: false gives the text Excel displays, so pin codes stored as numbers stay '400001'.
+  const records = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { header: 1, raw: false, defval: '', blankrows: false });
+  const [headers = [], ...rows] = records;
+  return {
+    headers: headers.map(h => cellToString(h).trim()),
+    rows: rows.map(row => row.map(cellToString)),
+  };
+};
+
+/**
+ * Turns parsed JSON records into a table. Objects contribute their keys as
+ * columns, in order of first appearance; arrays are taken as rows with the
+ * first one as the header.
+ */
+const recordsToTable = (records: unknown[]): TableData => {
+  if (records.length === 0) {
+    return { headers: [], rows: [] };
+  }
+  if (records.every(Array.isArray)) {
+    const [headers, ...rows] = records as unknown[][];
+    return { headers: headers.map(h => cellToString(h).trim()), rows: rows.map(row => row.map(cellToString)) };
+  }
+
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const record of records) {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new Error('Each JSON record must be an object.');
+    }
+    for (const key of Object.keys(record)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        headers.push(key);
+      }
+    }
+  }
+  const rows = records.map(record => headers.map(h => cellToString((record as Record<string, unknown>)[h])));
+  return { headers, rows };
+};
+
+const parseJson = (text: string): TableData => {
+  const parsed = JSON.parse(text);
+  const records = Array.isArray(parsed) ? parsed : parsed?.rows ?? parsed?.data;
+  if (!Array.isArray(records)) {
+    throw new Error('The JSON file must contain an array of records.');
+  }
+  return recordsToTable(records);
+};
+
+const parseNdjson = (text: string): TableData => {
+  const records: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === '') return;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Line ${i + 1} of the NDJSON file is not valid JSON.`);
+    }
+  });
+  return recordsToTable(records);
+};
+
+/**
+ * Reads a whole input file. `sheet` selects the worksheet of an Excel file
+ * and defaults to the first one.
+ */
+const readTable = async (file: File, options: { sheet?: string } = {}): Promise<TableData> => {
+  switch (detectFormat(file)) {
+    case 'csv':
+      return readCsvFile(file);
+    case 'xlsx':
+      return readSheet(await readWorkbook(file), options.sheet);
+    case 'json':
+      return parseJson(await file.text());
+    case 'ndjson':
+      return parseNdjson(await file.text());
+    default:
+      throw new Error('Unsupported file type. Please upload a CSV, Excel or JSON file.');
+  }
+};
+
+/**
+ * Reads just the header row; CSV files are only partly read.
+ */
+const readTableHeaders = async (file: File, options: { sheet?: string } = {}): Promise<string[]> => {
+  if (detectFormat(file) === 'csv') {
+    return readCsvHeaders(file);
+  }
+  return (await readTable(file, options)).headers;
+};
+
+/**
+ * Serializes a table in the requested format. Numbers stay numeric in Excel
+ * and JSON output.
+ */
+const writeTable = (table: { headers: string[]; rows: unknown[][] }, format: TableFormat, sheetName = 'Results'): Blob => {
+  const { mimeType } = FORMATS[format];
+  switch (format) {
+    case 'csv':
+      return new Blob([toCsv([table.headers, ...table.rows])], { type: mimeType });
+    case 'xlsx': {
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([table.headers, ...table.rows]), sheetName);
+      const bytes: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+      return new Blob([bytes], { type: mimeType });
+    }
+    case 'json':
+    case 'ndjson': {
+      const records = table.rows.map(row => Object.fromEntries(table.headers.map((h, i) => [h, row[i] ?? ''])));
+      const text = format === 'json'
+        ? JSON.stringify(records, null, 2)
+        : records.map(record => JSON.stringify(record)).join('\n');
+      return new Blob([text], { type: mimeType });
+    }
+  }
+};
+
+export type { TableFormat, TableData };
+export { FORMATS, ACCEPTED_INPUT_TYPES, detectFormat, listSheets, readTable, readTableHeaders, writeTable };
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { formatTravelTime, normalizeTravelTime, parseTravelTime } from './travelTime';
+
+describe('parseTravelTime', () => {
+  it.each([
+    ['2 hours 59 mins', 179],
+    ['1h5m', 65],
+    ['1h05m', 65],
+    ['1 hr 5 min', 65],
+    ['65 minutes', 65],
+    ['1:05', 65],
+    ['1h05', 65],
+    ['1h 5 mins', 65],
+    ['1.5 h', 90],
+    ['2 days 3 hours', 51 * 60],
+    ['2d3h', 51 * 60],
+    ['45', 45],
+    ['About 3 Hours', 180],
+  ])('reads %j as %i minutes', (text, minutes) => {
+    expect(parseTravelTime(text)).toBe(minutes);
+  });
+
+  it('returns null when there is no duration', () => {
+    expect(parseTravelTime('unknown')).toBeNull();
+    expect(parseTravelTime('')).toBeNull();
+  });
+});
+
+describe('formatTravelTime', () => {
+  it('writes hours and minutes', () => {
+    expect(formatTravelTime(45)).toBe('45 mins');
+    expect(formatTravelTime(65)).toBe('1 hour 5 mins');
+    expect(formatTravelTime(179)).toBe('2 hours 59 mins');
+  });
+});
+
+describe('normalizeTravelTime', () => {
+  it('fills in the minutes and rewrites the text', () => {
+    const info = normalizeTravelTime({ distance: 60, travelTime: '1h5m', routeSummary: '' });
+    expect(info.durationMinutes).toBe(65);
+    expect(info.travelTime).toBe('1 hour 5 mins');
+  });
+
+  it('keeps text it cannot read', () => {
+    const info = { distance: 60, travelTime: 'a while', routeSummary: '' };
+    expect(normalizeTravelTime(info)).toBe(info);
+  });
+});
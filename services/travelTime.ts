@@ -0,0 +1,62 @@
+import type { DrivingInfo } from '../types';
+
+/**
+ * Formats a duration in minutes the way Gemini does, e.g. '2 hours 59 mins'.
+ */
+const formatTravelTime = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  if (hours === 0) return `${mins} mins`;
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'} ${mins} mins`;
+};
+
+// A unit ends at the next non-letter, not a word boundary, so '1h5m' reads as 1h and 5m.
+const UNIT_MINUTES: Array<[RegExp, number]> = [
+  [/(\d+(?:\.\d+)?)\s*(?:days?|d)(?![a-z])/, 24 * 60],
+  [/(\d+(?:\.\d+)?)\s*(?:hours?|hrs?|h)(?![a-z])/, 60],
+  [/(\d+(?:\.\d+)?)\s*(?:minutes?|mins?|m)(?![a-z])/, 1],
+];
+
+/**
+ * Reads a travel time back into minutes. Accepts the shapes providers return,
+ * e.g. '2 hours 59 mins', '1 hr 5 min', '65 minutes', '1h05', '1h5m', '1:05',
+ * '1.5 h' and '2 days 3 hours'; a bare number is taken as minutes. Returns
+ * null when no duration can be found in the text.
+ */
+const parseTravelTime = (text: string): number | null => {
+  const value = text.trim().toLowerCase();
+
+  if (/^\d+(?:\.\d+)?$/.test(value)) {
+    return Math.round(parseFloat(value));
+  }
+
+  // '1:05' and '1h05', where the minutes may carry no unit, and '1h05m'.
+  const compact = /(\d+)\s*(?::|h)\s*(\d{1,2})(?:\s*(?:minutes?|mins?|m))?(?!\s*(?:\d|[a-z]))/.exec(value);
+  if (compact) {
+    return parseInt(compact[1], 10) * 60 + parseInt(compact[2], 10);
+  }
+
+  let total = 0;
+  let found = false;
+  for (const [pattern, minutes] of UNIT_MINUTES) {
+    const match = pattern.exec(value);
+    if (match) {
+      total += parseFloat(match[1]) * minutes;
+      found = true;
+    }
+  }
+  return found ? Math.round(total) : null;
+};
+
+/**
+ * Fills in `durationMinutes` from the provider's travel time text and, when
+ * that can be read, rewrites the text in our own format so every provider
+ * displays durations alike. Unreadable text is kept as it is.
+ */
+const normalizeTravelTime = (info: DrivingInfo): DrivingInfo => {
+  const minutes = info.durationMinutes ?? parseTravelTime(info.travelTime);
+  if (minutes === null) return info;
+  return { ...info, durationMinutes: minutes, travelTime: formatTravelTime(minutes) };
+};
+
+export { formatTravelTime, parseTravelTime, normalizeTravelTime };
@@ -0,0 +1,104 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { UsageLogEntry } from '../types';
+import { BudgetExceededError, recordUsage, setDailyBudget, withinBudget } from './usage';
+
+/** An in-memory stand-in for the two IndexedDB stores the usage log uses. */
+const fake = vi.hoisted(() => {
+  const settings = new Map<string, { key: string; value: number }>();
+  const log: UsageLogEntry[] = [];
+  const stores = {
+    settings: {
+      get: (key: string) => settings.get(key),
+      put: (value: { key: string; value: number }) => settings.set(value.key, value),
+      delete: (key: string) => settings.delete(key),
+    },
+    usageLog: {
+      put: (entry: UsageLogEntry) => log.push(entry),
+      index: () => ({ getAll: () => [...log], getAllKeys: () => [] }),
+    },
+  };
+  return { settings, log, stores, provider: { id: 'gemini', usesTokens: true } };
+});
+
+vi.mock('./db', () => ({
+  STORES: { usageLog: 'usageLog', settings: 'settings' },
+  promisify: async (value: unknown) => value,
+  withStore: async (name: 'usageLog' | 'settings', _mode: string, run: (store: unknown) => unknown) => run(fake.stores[name]),
+}));
+
+vi.mock('./routingService', () => ({ getActiveProvider: () => fake.provider }));
+
+vi.stubGlobal('IDBKeyRange', { upperBound: () => null });
+
+/** A million prompt tokens: 30 cents. */
+const MILLION_PROMPT = { promptTokens: 1_000_000, outputTokens: 0 };
+
+const logged = () => vi.waitFor(() => {
+  if (fake.log.length === 0) throw new Error('Nothing logged yet.');
+  return fake.log[fake.log.length - 1];
+});
+
+beforeEach(() => {
+  fake.settings.clear();
+  fake.log.length = 0;
+  fake.provider.usesTokens = true;
+});
+
+describe('withinBudget', () => {
+  it('logs the usage counted during the run', async () => {
+    const result = await withinBudget({ kind: 'matrix', label: '2 × 2 matrix' }, async spending => {
+      spending.add({ promptTokens: 100, outputTokens: 200 });
+      spending.add(undefined);
+      spending.add({ promptTokens: 50, outputTokens: 50, calls: 2 });
+      expect(spending.total).toEqual({ promptTokens: 150, outputTokens: 250, calls: 3 });
+      return 'done';
+    });
+    expect(result).toBe('done');
+    expect(await logged()).toMatchObject({
+      kind: 'matrix', label: '2 × 2 matrix', provider: 'gemini', calls: 3, promptTokens: 150, outputTokens: 250,
+    });
+  });
+
+  it('logs nothing when no lookup reached the provider', async () => {
+    await withinBudget({ kind: 'single', label: '400001 → Pune' }, async spending => {
+      spending.add(undefined);
+    });
+    await new Promise(resolve => setTimeout(resolve));
+    expect(fake.log).toEqual([]);
+  });
+
+  it('logs the usage of a run that fails part way', async () => {
+    await expect(withinBudget({ kind: 'route', label: '400001 → 3 stops' }, async spending => {
+      spending.add(MILLION_PROMPT);
+      throw new Error('Leg 2 failed.');
+    })).rejects.toThrow('Leg 2 failed.');
+    expect((await logged()).calls).toBe(1);
+  });
+
+  it('refuses to start once today\'s budget is spent', async () => {
+    await setDailyBudget(0.5);
+    await recordUsage({ kind: 'bulk', label: 'earlier.csv', provider: 'gemini', calls: 2, promptTokens: 2_000_000, outputTokens: 0 });
+    const run = vi.fn();
+    const refused = withinBudget({ kind: 'single', label: '400001 → Pune' }, run);
+    await expect(refused).rejects.toThrow(BudgetExceededError);
+    await expect(refused).rejects.toThrow('Today\'s API spend of $0.60 has reached the daily budget of $0.50.');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('reports when the run reaches the budget', async () => {
+    await setDailyBudget(0.5);
+    await withinBudget({ kind: 'bulk', label: 'shipments.csv' }, async spending => {
+      expect(spending.add(MILLION_PROMPT)).toBe(true);
+      expect(spending.add(MILLION_PROMPT)).toBe(false);
+      expect(spending.overBudgetMessage).toContain('spend of $0.60 has reached the daily budget of $0.50');
+    });
+  });
+
+  it('enforces no budget for providers that are not billed by tokens', async () => {
+    await setDailyBudget(0.5);
+    await recordUsage({ kind: 'bulk', label: 'earlier.csv', provider: 'gemini', calls: 2, promptTokens: 2_000_000, outputTokens: 0 });
+    fake.provider.usesTokens = false;
+    await expect(withinBudget({ kind: 'single', label: '400001 → Pune' }, async spending => spending.add(MILLION_PROMPT)))
+      .resolves.toBe(true);
+  });
+});
@@ -0,0 +1,261 @@
+import type { DailyUsage, TokenUsage, UsageLogEntry, UsageTotal } from '../types';
+import { STORES, promisify, withStore } from './db';
+import { getActiveProvider } from './routingService';
+
+/**
+ * Gemini 2.5 Flash list prices in US dollars per million tokens. Thinking
+ * tokens are billed at the output price.
+ */
+const TOKEN_PRICES = { inputPerMillion: 0.3, outputPerMillion: 2.5 };
+
+/** Assumed usage of one lookup until some have been logged. */
+const TYPICAL_USAGE: TokenUsage = { promptTokens: 150, outputTokens: 350 };
+
+/** Log entries older than this many days are dropped. */
+const USAGE_RETENTION_DAYS = 90;
+
+const BUDGET_KEY = 'dailyBudget';
+
+const NO_USAGE: TokenUsage = { promptTokens: 0, outputTokens: 0 };
+
+const NO_USAGE_TOTAL: UsageTotal = { ...NO_USAGE, calls: 0 };
+
+const addUsage = (a: TokenUsage, b: TokenUsage | undefined): TokenUsage =>
+  b ? { promptTokens: a.promptTokens + b.promptTokens, outputTokens: a.outputTokens + b.outputTokens } : a;
+
+/**
+ * Adds one lookup's usage to a total; lookups without usage (cache hits,
+ * offline providers) are not counted as calls.
+ */
+const addCall = (total: UsageTotal, usage: TokenUsage | undefined): UsageTotal =>
+  usage ? { ...addUsage(total, usage), calls: total.calls + 1 } : total;
+
+const totalTokens = (usage: TokenUsage): number => usage.promptTokens + usage.outputTokens;
+
+/**
+ * Cost in US dollars at TOKEN_PRICES.
+ */
+const usageCost = (usage: TokenUsage): number =>
+  (usage.promptTokens * TOKEN_PRICES.inputPerMillion + usage.outputTokens * TOKEN_PRICES.outputPerMillion) / 1_000_000;
+
+/** Dollars, with four decimals for amounts under a cent. */
+const formatUsd = (amount: number): string =>
+  amount.toLocaleString('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: amount > 0 && amount < 0.01 ? 4 : 2,
+  });
+
+const formatTokens = (tokens: number): string => tokens.toLocaleString('en-IN');
+
+/** The local calendar day of `time` as YYYY-MM-DD. */
+const localDay = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Logs the usage of a finished calculation or bulk run, dropping entries
+ * older than USAGE_RETENTION_DAYS.
+ */
+const recordUsage = async (
+  entry: Omit<UsageLogEntry, 'id' | 'createdAt' | 'day' | 'cost'>,
+): Promise<UsageLogEntry> => {
+  const now = Date.now();
+  const stored: UsageLogEntry = {
+    ...entry,
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: now,
+    day: localDay(now),
+    cost: usageCost(entry),
+  };
+  await withStore(STORES.usageLog, 'readwrite', async store => {
+    await promisify(store.put(stored));
+    const cutoff = now - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const expired = await promisify(store.index('createdAt').getAllKeys(IDBKeyRange.upperBound(cutoff, true)));
+    await Promise.all(expired.map(key => promisify(store.delete(key))));
+  });
+  return stored;
+};
+
+/**
+ * Every log entry, newest first.
+ */
+const listUsage = async (): Promise<UsageLogEntry[]> => {
+  const entries = await withStore(STORES.usageLog, 'readonly', store =>
+    promisify<UsageLogEntry[]>(store.index('createdAt').getAll()));
+  return entries.reverse();
+};
+
+const clearUsageLog = (): Promise<void> =>
+  withStore(STORES.usageLog, 'readwrite', async store => {
+    await promisify(store.clear());
+  });
+
+/**
+ * Totals per day, newest first.
+ */
+const dailyTotals = (entries: UsageLogEntry[]): DailyUsage[] => {
+  const byDay = new Map<string, DailyUsage>();
+  for (const entry of entries) {
+    const day = byDay.get(entry.day) ?? { day: entry.day, calls: 0, cost: 0, ...NO_USAGE };
+    byDay.set(entry.day, {
+      ...day,
+      ...addUsage(day, entry),
+      calls: day.calls + entry.calls,
+      cost: day.cost + entry.cost,
+    });
+  }
+  return Array.from(byDay.values()).sort((a, b) => b.day.localeCompare(a.day));
+};
+
+/**
+ * What has been spent today, in US dollars.
+ */
+const spentToday = async (): Promise<number> => {
+  const today = localDay(Date.now());
+  return (await listUsage()).filter(entry => entry.day === today).reduce((sum, entry) => sum + entry.cost, 0);
+};
+
+/**
+ * Average usage per lookup over the log, or TYPICAL_USAGE before any have
+ * been logged.
+ */
+const averageUsage = (entries: UsageLogEntry[]): TokenUsage => {
+  const calls = entries.reduce((sum, entry) => sum + entry.calls, 0);
+  if (calls === 0) return TYPICAL_USAGE;
+  const total = entries.reduce<TokenUsage>(addUsage, NO_USAGE);
+  return { promptTokens: Math.round(total.promptTokens / calls), outputTokens: Math.round(total.outputTokens / calls) };
+};
+
+/** The daily spending limit in US dollars, or null for none. */
+const getDailyBudget = async (): Promise<number | null> => {
+  const setting = await withStore(STORES.settings, 'readonly', store =>
+    promisify<{ key: string; value: number } | undefined>(store.get(BUDGET_KEY)));
+  return setting?.value ?? null;
+};
+
+/** Today's spending limit and spend so far, in US dollars. */
+interface Budget {
+  limit: number | null;
+  spent: number;
+}
+
+/**
+ * Today's budget, when the active provider is billed by tokens. A usage log
+ * that can't be read means no budget is enforced.
+ */
+const loadBudget = async (): Promise<Budget> => {
+  if (!getActiveProvider().usesTokens) return { limit: null, spent: 0 };
+  try {
+    const [limit, spent] = await Promise.all([getDailyBudget(), spentToday()]);
+    return { limit, spent };
+  } catch (err) {
+    console.error('Could not read the usage log:', err);
+    return { limit: null, spent: 0 };
+  }
+};
+
+const isOverBudget = ({ limit, spent }: Budget): boolean => limit !== null && spent >= limit;
+
+const budgetMessage = ({ limit, spent }: Budget): string =>
+  `Today's API spend of ${formatUsd(spent)} has reached the daily budget of ${formatUsd(limit ?? 0)}. Raise the budget under "Usage" to continue.`;
+
+/** Thrown by withinBudget when today's budget is already spent. */
+class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/** The spend of one calculation, as seen by the code making its lookups. */
+interface Spending {
+  /**
+   * Counts one lookup's usage, or a calculation's total. Returns false once
+   * today's budget has been reached, so long runs can stop early.
+   */
+  add(usage: TokenUsage | UsageTotal | undefined): boolean;
+  /** Everything counted so far. */
+  readonly total: UsageTotal;
+  /** Why a run stopped, once add has returned false. */
+  readonly overBudgetMessage: string;
+}
+
+/**
+ * Every paid calculation goes through here. It refuses to start (throwing
+ * BudgetExceededError) once today's budget is reached, hands `run` a
+ * Spending to count its lookups with, and logs what was counted afterwards,
+ * even if `run` fails part way.
+ */
+const withinBudget = async <T>(
+  entry: Pick<UsageLogEntry, 'kind' | 'label'>,
+  run: (spending: Spending) => Promise<T>,
+): Promise<T> => {
+  const budget = await loadBudget();
+  if (isOverBudget(budget)) {
+    throw new BudgetExceededError(budgetMessage(budget));
+  }
+
+  let total = NO_USAGE_TOTAL;
+  const spentNow = (): Budget => ({ limit: budget.limit, spent: budget.spent + usageCost(total) });
+  const spending: Spending = {
+    add: (usage) => {
+      if (usage) {
+        const calls = 'calls' in usage ? usage.calls : 1;
+        total = { ...addUsage(total, usage), calls: total.calls + calls };
+      }
+      return !isOverBudget(spentNow());
+    },
+    get total() {
+      return total;
+    },
+    get overBudgetMessage() {
+      return budgetMessage(spentNow());
+    },
+  };
+
+  try {
+    return await run(spending);
+  } finally {
+    if (total.calls > 0) {
+      recordUsage({ ...entry, provider: getActiveProvider().id, ...total })
+        .catch(err => console.error('Could not log usage:', err));
+    }
+  }
+};
+
+const setDailyBudget = (amount: number | null): Promise<void> => {
+  if (amount !== null && !(Number.isFinite(amount) && amount > 0)) {
+    return Promise.reject(new Error('The daily budget must be an amount greater than zero.'));
+  }
+  return withStore(STORES.settings, 'readwrite', async store => {
+    await promisify(amount === null ? store.delete(BUDGET_KEY) : store.put({ key: BUDGET_KEY, value: amount }));
+  });
+};
+
+export {
+  TOKEN_PRICES,
+  NO_USAGE,
+  NO_USAGE_TOTAL,
+  BudgetExceededError,
+  addUsage,
+  addCall,
+  totalTokens,
+  usageCost,
+  formatUsd,
+  formatTokens,
+  recordUsage,
+  listUsage,
+  clearUsageLog,
+  dailyTotals,
+  spentToday,
+  averageUsage,
+  getDailyBudget,
+  setDailyBudget,
+  loadBudget,
+  isOverBudget,
+  withinBudget,
+};
+export type { Budget, Spending };
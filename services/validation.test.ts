@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { DrivingInfo } from '../types';
+import { isSuspicious, validateDrivingInfo } from './validation';
+
+const route = (distance: number, durationMinutes: number | undefined, travelTime = `${durationMinutes} mins`): DrivingInfo =>
+  ({ distance, travelTime, durationMinutes, routeSummary: 'via NH48' });
+
+describe('validateDrivingInfo', () => {
+  it('flags pin codes that are not in the gazetteer as unverified', () => {
+    const { warnings } = validateDrivingInfo('400999', '110001', route(100, 120));
+    expect(warnings).toContain('Pin code 400999 is not in the offline gazetteer, so it could not be verified.');
+  });
+
+  it('accepts a plausible route', () => {
+    // Delhi to Mumbai is about 1,150 km in a straight line.
+    expect(validateDrivingInfo('110001', '400001', route(1420, 1500))).toEqual({ confidence: 1, warnings: [] });
+  });
+
+  it('flags a distance shorter than the straight line', () => {
+    const { confidence, warnings } = validateDrivingInfo('110001', '400001', route(600, 700));
+    expect(warnings[0]).toMatch('shorter than the');
+    expect(confidence).toBe(0.4);
+  });
+
+  it('flags a distance far longer than the straight line', () => {
+    const { warnings } = validateDrivingInfo('110001', '400001', route(4000, 4000));
+    expect(warnings[0]).toMatch(/3\.\d× the/);
+  });
+
+  it('flags implausible average speeds', () => {
+    expect(validateDrivingInfo('110001', '400001', route(1420, 600)).warnings[0]).toMatch('average of 142 km/h');
+    expect(validateDrivingInfo('110001', '400001', route(1420, 9000)).warnings[0]).toMatch('average of only');
+  });
+
+  it('flags a travel time that could not be read', () => {
+    const { confidence, warnings } = validateDrivingInfo('110001', '400001', route(1420, undefined, 'soon'));
+    expect(warnings).toEqual(['The travel time "soon" could not be read.']);
+    expect(confidence).toBe(0.7);
+  });
+
+  it('lowers the confidence when there is nothing to compare the distance with', () => {
+    expect(validateDrivingInfo('Nowhereville', '400001', route(100, 120)).confidence).toBe(0.8);
+  });
+
+  it('gives zero confidence to a non-positive distance', () => {
+    expect(validateDrivingInfo('110001', '400001', route(0, 60)).confidence).toBe(0);
+  });
+});
+
+describe('isSuspicious', () => {
+  it('flags results with warnings or low confidence', () => {
+    expect(isSuspicious(route(100, 120))).toBe(false);
+    expect(isSuspicious({ ...route(100, 120), warnings: ['odd'] })).toBe(true);
+    expect(isSuspicious({ ...route(100, 120), confidence: 0.5 })).toBe(true);
+  });
+});
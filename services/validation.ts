@@ -0,0 +1,91 @@
+import type { DrivingInfo } from '../types';
+import { haversineDistance, unverifiedPinCodeWarning } from './gazetteer';
+import { locate, parseLocation } from './location';
+
+/** Results below this confidence are flagged for review. */
+const LOW_CONFIDENCE = 0.6;
+
+/** Road distance is never shorter than the great-circle distance. */
+const MIN_ROAD_RATIO = 0.95;
+/** Beyond this, the road distance is far longer than the terrain explains. */
+const MAX_ROAD_RATIO = 2.5;
+/** Short trips wind more relative to their length. */
+const MAX_ROAD_RATIO_SHORT = 4;
+const SHORT_TRIP_KM = 25;
+
+const MAX_AVERAGE_SPEED = 90; // km/h
+const MIN_AVERAGE_SPEED = 15; // km/h
+
+/**
+ * Checks a route against what we can work out independently: the
+ * great-circle distance between the two places (when both have known
+ * coordinates), the average speed implied by the travel time, and whether the
+ * travel time can be read at all. Each failed check lowers the confidence
+ * and adds a warning. Pin codes missing from the gazetteer are flagged as
+ * unverified.
+ */
+const validateDrivingInfo = (
+  origin: string,
+  destination: string,
+  info: DrivingInfo,
+): { confidence: number; warnings: string[] } => {
+  const warnings: string[] = [];
+  let confidence = 1;
+
+  if (!(info.distance > 0)) {
+    return { confidence: 0, warnings: ['The distance is not a positive number.'] };
+  }
+
+  const fromLocation = parseLocation(origin);
+  const toLocation = parseLocation(destination);
+  for (const location of [fromLocation, toLocation]) {
+    const warning = location.kind === 'pincode' ? unverifiedPinCodeWarning(location.pinCode) : null;
+    if (warning) warnings.push(warning);
+  }
+
+  const from = locate(fromLocation);
+  const to = locate(toLocation);
+  if (from && to) {
+    const straightLine = haversineDistance(from, to);
+    // Below a few km the gazetteer's town-centre coordinates are too coarse to judge.
+    if (straightLine >= 5) {
+      const ratio = info.distance / straightLine;
+      const maxRatio = straightLine < SHORT_TRIP_KM ? MAX_ROAD_RATIO_SHORT : MAX_ROAD_RATIO;
+      if (ratio < MIN_ROAD_RATIO) {
+        warnings.push(`${info.distance} km is shorter than the ${Math.round(straightLine)} km straight-line distance.`);
+        confidence -= 0.6;
+      } else if (ratio > maxRatio) {
+        warnings.push(`${info.distance} km is ${ratio.toFixed(1)}× the ${Math.round(straightLine)} km straight-line distance.`);
+        confidence -= 0.5;
+      }
+    }
+  } else {
+    // Nothing to compare the distance against.
+    confidence -= 0.2;
+  }
+
+  const minutes = info.durationMinutes;
+  if (minutes === undefined || minutes <= 0) {
+    warnings.push(`The travel time "${info.travelTime}" could not be read.`);
+    confidence -= 0.3;
+  } else {
+    const speed = info.distance / (minutes / 60);
+    if (speed > MAX_AVERAGE_SPEED) {
+      warnings.push(`The travel time implies an average of ${Math.round(speed)} km/h.`);
+      confidence -= 0.4;
+    } else if (speed < MIN_AVERAGE_SPEED && info.distance > SHORT_TRIP_KM) {
+      warnings.push(`The travel time implies an average of only ${Math.round(speed)} km/h.`);
+      confidence -= 0.3;
+    }
+  }
+
+  return { confidence: Math.max(0, Math.round(confidence * 100) / 100), warnings };
+};
+
+/**
+ * Whether a result should be flagged for a human to check.
+ */
+const isSuspicious = (info: DrivingInfo): boolean =>
+  (info.warnings?.length ?? 0) > 0 || (info.confidence !== undefined && info.confidence < LOW_CONFIDENCE);
+
+export { LOW_CONFIDENCE, validateDrivingInfo, isSuspicious };
@@ -1,5 +1,404 @@
 export interface DrivingInfo {
   distance: number;
+  /** Display text, e.g. '2 hours 59 mins'. */
   travelTime: string;
+  /** The travel time in minutes, when it could be read. */
+  durationMinutes?: number;
   routeSummary: string;
+  /** 0 to 1: how plausible the route looks against independent checks. */
+  confidence?: number;
+  /** Reasons the route looks suspicious, if any. */
+  warnings?: string[];
+  /** The options the route was calculated with. */
+  options?: RouteOptions;
+  /** Gemini tokens used to look the route up; absent for cached and offline routes. */
+  usage?: TokenUsage;
+}
+
+/** Tokens billed for Gemini calls. Thinking tokens are billed, and counted, as output. */
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+/** Token usage summed over the provider calls of one calculation. */
+export interface UsageTotal extends TokenUsage {
+  /** Provider calls that returned usage; cache hits are not counted. */
+  calls: number;
+}
+
+export type VehicleType = 'two-wheeler' | 'car' | 'lcv' | 'truck';
+
+/** How the trip is made; every provider receives these with the endpoints. */
+export interface RouteOptions {
+  vehicle: VehicleType;
+  avoidTolls: boolean;
+  avoidHighways: boolean;
+  /** Local date and time ('2025-01-31T08:30') or time of day ('08:30'); empty for no preference. */
+  departureTime: string;
+}
+
+/**
+ * A source of driving distances. Gemini is one implementation; others can wrap
+ * OSRM, GraphHopper, a Distance Matrix key or an offline dataset.
+ */
+export interface RoutingProvider {
+  /** Stable identifier used by the registry and the ROUTING_PROVIDER setting. */
+  id: string;
+  /** Human readable name shown in the UI. */
+  name: string;
+  /** Whether the provider can be used right now (e.g. its API key is configured). */
+  isAvailable(): boolean;
+  /** True when lookups are billed by Gemini token usage. */
+  usesTokens?: boolean;
+  getDrivingInfo(origin: Location, destination: Location, options: RouteOptions): Promise<DrivingInfo>;
+}
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * A route endpoint as the user entered it: a pin code, a city or town name,
+ * or a "lat,lon" coordinate pair. `value` is the trimmed input.
+ */
+export type Location =
+  | { kind: 'pincode'; value: string; pinCode: string }
+  | { kind: 'place'; value: string; name: string }
+  | { kind: 'coordinates'; value: string; coordinates: Coordinates };
+
+export type LocationKind = Location['kind'];
+
+/** One post office from the pin code gazetteer. */
+export interface PinCodeRecord extends Coordinates {
+  pinCode: string;
+  officeName: string;
+  district: string;
+  state: string;
+}
+
+/**
+ * A named place in the gazetteer: a post office or district, reached under
+ * its own name or under a well-known alias.
+ */
+export interface Place {
+  /** Canonical name, e.g. 'Bengaluru'. */
+  name: string;
+  state: string;
+  /** The post office the place resolves to. */
+  record: PinCodeRecord;
+  /** The alias this entry is found under, e.g. 'Bangalore'. */
+  alias?: string;
+}
+
+export interface BulkResultRow extends DrivingInfo {
+  row: number;
+  "Origin Pin Code": string;
+  "Destination City": string;
+  /** True when the route came from the route cache rather than the provider. */
+  fromCache?: boolean;
+  /** The row's original input values, in input column order. */
+  input: string[];
+}
+
+export interface BulkError {
+  row: number;
+  origin: string;
+  destination: string;
+  message: string;
+  /** The row's original input values, in input column order. */
+  input: string[];
+}
+
+/** One data row of a bulk upload; `row` is the 1-based line number in the file. */
+export interface BulkTask {
+  row: number;
+  origin: string;
+  destination: string;
+  /** Every value of the input row, kept so exports can pass them through. */
+  values: string[];
+  options: RouteOptions;
+  /** Set when the row's option columns hold values we can't read. */
+  optionsError?: string;
+}
+
+export interface BulkSettings {
+  /** Rows looked up at the same time. */
+  concurrency: number;
+  /** Upper bound on routing calls per minute across all rows. */
+  requestsPerMinute: number;
+  /** Retries for rate-limited or transient failures. */
+  maxRetries: number;
+}
+
+/**
+ * Which input columns (by index) hold the origin and destination, and
+ * optionally per-row route options.
+ */
+export interface ColumnMapping {
+  origin: number;
+  destination: number;
+  vehicle?: number;
+  avoidTolls?: number;
+  avoidHighways?: number;
+  departureTime?: number;
+}
+
+export type BulkJobStatus = 'running' | 'paused' | 'done' | 'cancelled';
+
+/** A bulk run persisted to IndexedDB so it can be resumed after a reload. */
+export interface BulkJob {
+  id: string;
+  /** The uploaded file itself, so a reloaded page can re-read it. */
+  file: File;
+  fileName: string;
+  /** Worksheet of an Excel upload. */
+  sheet?: string;
+  mapping: ColumnMapping;
+  /** Options for rows without their own option columns. */
+  routeOptions: RouteOptions;
+  settings: BulkSettings;
+  total: number;
+  status: BulkJobStatus;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** The inputs of a single calculation, e.g. for re-running it. */
+export interface SingleRequest {
+  origin: string;
+  destination: string;
+  options: RouteOptions;
+}
+
+/** The inputs of a bulk run, e.g. for re-running it. */
+export interface BulkRequest {
+  file: File;
+  sheet?: string;
+  mapping: ColumnMapping;
+  routeOptions: RouteOptions;
+}
+
+export interface SingleHistoryEntry extends SingleRequest {
+  id: string;
+  kind: 'single';
+  createdAt: number;
+  provider: string;
+  info: DrivingInfo;
+  fromCache: boolean;
+}
+
+export interface BulkHistoryEntry extends Omit<BulkRequest, 'file'> {
+  /** The uploaded file; only the newest bulk entries keep it (see MAX_BULK_FILES). */
+  file?: File;
+  id: string;
+  kind: 'bulk';
+  createdAt: number;
+  provider: string;
+  fileName: string;
+  /** Rows looked up in this run (a re-run of failed rows covers only those). */
+  total: number;
+  succeeded: number;
+  failed: number;
+  /** False when the run was cancelled or stopped early. */
+  completed: boolean;
+}
+
+/** A past calculation in the persisted history. */
+export type HistoryEntry = SingleHistoryEntry | BulkHistoryEntry;
+
+/** An origin/destination pair pinned to the top of the history. */
+export interface FavouritePair extends SingleRequest {
+  /** Normalized origin, destination and options (see `pairKey`). */
+  key: string;
+  pinnedAt: number;
+}
+
+/** A route stored in the persistent route cache. */
+export interface RouteCacheEntry {
+  /** Provider id plus the normalized origin, destination and non-default options. */
+  key: string;
+  origin: string;
+  destination: string;
+  provider: string;
+  options: RouteOptions;
+  info: DrivingInfo;
+  cachedAt: number;
+}
+
+/** One leg of a multi-stop route. */
+export interface RouteLeg {
+  from: string;
+  to: string;
+  info: DrivingInfo;
+}
+
+export interface RoutePlan {
+  /** Stops in visiting order, starting with the origin. */
+  stops: string[];
+  legs: RouteLeg[];
+  totalDistance: number;
+  /** Sum of the legs' travel times; null if any leg's time could not be read. */
+  totalMinutes: number | null;
+  /** Usage of every lookup made for the plan, including those for ordering the stops. */
+  usage: UsageTotal;
+}
+
+/** One origin/destination pair of a distance matrix. */
+export interface MatrixCell {
+  info?: DrivingInfo;
+  error?: string;
+}
+
+export interface DistanceMatrixResult {
+  origins: string[];
+  destinations: string[];
+  /** cells[d][o] is the route from origins[o] to destinations[d]. */
+  cells: MatrixCell[][];
+  usage: UsageTotal;
+}
+
+/** A service-area limit: a road distance in km or a travel time in minutes. */
+export interface ServiceAreaLimit {
+  kind: 'distance' | 'time';
+  value: number;
+}
+
+export interface ServiceAreaPlace {
+  record: PinCodeRecord;
+  /** Great-circle distance from the origin, in km. */
+  straightLineKm: number;
+  info?: DrivingInfo;
+  error?: string;
+}
+
+export interface ServiceAreaResult {
+  origin: PinCodeRecord;
+  limit: ServiceAreaLimit;
+  /** Places within the limit by road, nearest first. */
+  places: ServiceAreaPlace[];
+  /** Shortlisted places whose road lookup failed. */
+  failed: ServiceAreaPlace[];
+  /** Places near enough to qualify that were not looked up by road. */
+  notChecked: number;
+  usage: UsageTotal;
+}
+
+/** A labelled point on the results map. */
+export interface MapPoint {
+  label: string;
+  coordinates: Coordinates;
+}
+
+/** One origin–destination pair drawn on the results map. */
+export interface MapSegment {
+  id: string;
+  origin: MapPoint;
+  destination: MapPoint;
+  /** Line and marker colour, e.g. from the pair's distance band. */
+  color: string;
+  /** Label/value pairs shown when the pair is clicked. */
+  details: Array<[string, string]>;
+}
+
+/** One per-km band of a rate card; `upTo` is null for the last, open-ended band. */
+export interface RateSlab {
+  upTo: number | null;
+  /** Charge per km for the kilometres within this band. */
+  rate: number;
+}
+
+/** How delivery charges are worked out from a route's distance (amounts in rupees). */
+export interface RateCard {
+  id: string;
+  name: string;
+  baseFare: number;
+  minimumCharge: number;
+  slabs: RateSlab[];
+  /** Per-vehicle rates, as multiples of the slab rates. */
+  vehicleMultipliers: Record<VehicleType, number>;
+  fuelSurchargePercent: number;
+  gstPercent: number;
+}
+
+/** The charge for one route under a rate card, rounded to the paisa. */
+export interface CostBreakdown {
+  rateCard: string;
+  baseFare: number;
+  distanceCharge: number;
+  /** True when the minimum charge replaced base fare plus distance charge. */
+  minimumApplied: boolean;
+  subtotal: number;
+  fuelSurcharge: number;
+  gst: number;
+  total: number;
+}
+
+/** Body of a POST to the routing server's /api/route. Locations are as typed. */
+export interface RouteApiRequest {
+  origin: string;
+  destination: string;
+  options: RouteOptions;
+}
+
+export type RouteApiErrorCode =
+  | 'bad_request'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'configuration'
+  | 'transient'
+  | 'routing'
+  | 'internal';
+
+/** Body of a failed /api/route response. */
+export interface RouteApiError {
+  error: string;
+  code: RouteApiErrorCode;
+}
+
+/** Messages to the bulk worker (services/bulkWorker.ts). */
+export type BulkWorkerRequest =
+  | (BulkRequest & {
+      type: 'start';
+      settings: BulkSettings;
+      /** Routing provider to use; the worker has its own registry. */
+      providerId: string;
+      /** Rows already done (e.g. when resuming), which are not looked up again. */
+      skipRows: number[];
+    })
+  | (BulkRequest & { type: 'estimate'; providerId: string })
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
+
+/**
+ * Messages from the bulk worker. Progress and row outcomes arrive in batches;
+ * a run ends with either 'done' or 'error', which carry the parsed rows.
+ */
+export type BulkWorkerResponse =
+  | { type: 'progress'; processed: number; total: number }
+  | { type: 'row-result'; results: BulkResultRow[]; errors: BulkError[] }
+  | { type: 'done'; tasks: BulkTask[]; completed: boolean }
+  | { type: 'error'; tasks: BulkTask[]; name: string; message: string }
+  | { type: 'estimate'; rows: number; calls: number };
+
+/** API usage of one calculation or bulk run, kept for daily totals. */
+export interface UsageLogEntry extends UsageTotal {
+  id: string;
+  createdAt: number;
+  /** Local calendar day (YYYY-MM-DD) the usage counts towards. */
+  day: string;
+  kind: 'single' | 'bulk' | 'matrix' | 'service-area' | 'route';
+  /** What was calculated, e.g. '400001 → Pune' or the bulk file name. */
+  label: string;
+  provider: string;
+  /** Cost in US dollars. */
+  cost: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  day: string;
+  calls: number;
+  cost: number;
 }
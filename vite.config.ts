@@ -8,11 +8,20 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The routing server (npm run server) holds the API key; see server/.
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`,
+        },
       },
       plugins: [react()],
+      // The bulk worker (services/bulkWorker.ts) is a module worker.
+      worker: {
+        format: 'es',
+      },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.ROUTING_API_URL': JSON.stringify(env.ROUTING_API_URL || ''),
+        'process.env.ROUTING_PROVIDER': JSON.stringify(env.ROUTING_PROVIDER || ''),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL || '')
       },
       resolve: {
         alias: {